@@ -2,11 +2,7 @@ import { Buffer } from 'buffer';
 import { Readable } from 'stream';
 import Redis from 'ioredis';
 import type { RedisOptions } from 'ioredis';
-import type { INodeFetchCacheCache, NFCResponseMetadata } from 'node-fetch-cache';
-
-type StoredMetadata = {
-  expiration?: number | undefined;
-} & NFCResponseMetadata;
+import type { INodeFetchCacheCache, InvalidationFilter, NFCResponseMetadata } from 'node-fetch-cache';
 
 type ExtendedRedisOptions = {
   ttl?: number | undefined;
@@ -17,6 +13,62 @@ type ExtendedRedisOptions = {
 // additionally, set `ttl` for a default expiry
 // Leave host, port or path undefined for localhost:6379
 
+function getTagIndexKey(tag: string) {
+  return `nfc-tag:${tag}`;
+}
+
+function getUrlIndexKey(url: string) {
+  return `nfc-url:${url}`;
+}
+
+function getMetadataUrls(metaData: NFCResponseMetadata) {
+  return metaData.requestUrl === undefined ? [metaData.url] : [metaData.url, metaData.requestUrl];
+}
+
+function hasHost(url: string, host: string) {
+  try {
+    const { host: urlHost, hostname } = new URL(url);
+    return urlHost === host || hostname === host;
+  } catch {
+    return false;
+  }
+}
+
+// The same as createInvalidationPredicate() from node-fetch-cache, which is
+// not available in all of the versions that this plugin supports.
+function createInvalidationPredicate(filter: InvalidationFilter) {
+  const { url, urlPrefix, host, predicate } = filter;
+
+  if (url === undefined && urlPrefix === undefined && host === undefined && !predicate) {
+    throw new TypeError('An invalidation filter must have at least one of url, urlPrefix, host or predicate');
+  }
+
+  const normalizedUrl = url === undefined ? undefined : new URL(url).href;
+  const normalizedHost = host?.toLowerCase();
+
+  return (metaData: NFCResponseMetadata) => {
+    const urls = getMetadataUrls(metaData);
+
+    return (normalizedUrl === undefined || urls.includes(normalizedUrl))
+      && (urlPrefix === undefined || urls.some(metaDataUrl => metaDataUrl.startsWith(urlPrefix)))
+      && (normalizedHost === undefined || urls.some(metaDataUrl => hasHost(metaDataUrl, normalizedHost)))
+      && (!predicate || predicate(metaData));
+  };
+}
+
+// Other applications may store keys that end in :meta in the same database,
+// so anything that doesn't look like our metadata is ignored.
+function parseMetadata(storedMetadata: string) {
+  try {
+    const metaData = JSON.parse(storedMetadata) as Partial<NFCResponseMetadata> | undefined;
+    return typeof metaData?.url === 'string' && typeof metaData.status === 'number'
+      ? metaData as NFCResponseMetadata
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 export class RedisCache implements INodeFetchCacheCache {
   private readonly ttl?: number | undefined;
   private readonly redis: Redis;
@@ -28,7 +80,7 @@ export class RedisCache implements INodeFetchCacheCache {
     this.redis = redisInstance ?? new Redis(this.redisOptions);
   }
 
-  async get(key: string) {
+  async get(key: string, options?: { ignoreExpiration?: boolean }) {
     const cachedObjectInfo = await this.redis.getBuffer(key);
 
     if (cachedObjectInfo === null) {
@@ -42,8 +94,12 @@ export class RedisCache implements INodeFetchCacheCache {
       return undefined;
     }
 
-    const storedMetadataJson = JSON.parse(storedMetadata) as StoredMetadata;
-    const { expiration, ...nfcMetadata } = storedMetadataJson;
+    const nfcMetadata = JSON.parse(storedMetadata) as NFCResponseMetadata;
+    const { expiration } = nfcMetadata;
+
+    if (!options?.ignoreExpiration && expiration !== undefined && expiration < Date.now()) {
+      return undefined;
+    }
 
     return {
       bodyStream: readableStream,
@@ -57,14 +113,62 @@ export class RedisCache implements INodeFetchCacheCache {
     return true;
   }
 
+  async removeMatching(predicate: (metaData: NFCResponseMetadata) => boolean) {
+    for await (const metaKeys of this.redis.scanStream({ match: '*:meta' })) {
+      for (const metaKey of metaKeys as string[]) {
+        const storedMetadata = await this.redis.get(metaKey);
+        const metaData = storedMetadata ? parseMetadata(storedMetadata) : undefined;
+
+        if (metaData && predicate(metaData)) {
+          await this.remove(metaKey.slice(0, -':meta'.length));
+        }
+      }
+    }
+  }
+
+  async invalidate(filter: InvalidationFilter) {
+    await this.removeMatching(createInvalidationPredicate(filter));
+  }
+
+  async invalidateTags(tags: string[]) {
+    for (const tag of tags) {
+      for (const key of await this.redis.smembers(getTagIndexKey(tag))) {
+        const storedMetadata = await this.redis.get(`${key}:meta`);
+
+        // The entry may have been replaced by one without the tag since it was indexed.
+        if (storedMetadata && (JSON.parse(storedMetadata) as NFCResponseMetadata).tags?.includes(tag)) {
+          await this.remove(key);
+        }
+
+        await this.redis.srem(getTagIndexKey(tag), key);
+      }
+    }
+  }
+
+  async invalidateUrls(urls: string[]) {
+    for (const url of urls) {
+      for (const key of await this.redis.smembers(getUrlIndexKey(url))) {
+        const storedMetadata = await this.redis.get(`${key}:meta`);
+        const metaData = storedMetadata ? parseMetadata(storedMetadata) : undefined;
+
+        // The entry may have been replaced by one for another URL since it was indexed.
+        if (metaData && getMetadataUrls(metaData).includes(url)) {
+          await this.remove(key);
+        }
+
+        await this.redis.srem(getUrlIndexKey(url), key);
+      }
+    }
+  }
+
   async set(key: string, bodyStream: NodeJS.ReadableStream, metaData: NFCResponseMetadata) {
-    const metaToStore = {
-      ...metaData,
-      expiration: undefined as undefined | number,
-    };
+    const metaToStore = { ...metaData };
 
     if (typeof this.ttl === 'number') {
-      metaToStore.expiration = Date.now() + this.ttl;
+      metaToStore.expiration = Math.min(
+        Date.now() + this.ttl,
+        metaData.expiration ?? Number.POSITIVE_INFINITY,
+      );
     }
 
     const buffer: Buffer = await new Promise((fulfill, reject) => {
@@ -93,6 +197,19 @@ export class RedisCache implements INodeFetchCacheCache {
       await (typeof this.ttl === 'number' ? this.redis.set(`${key}:meta`, JSON.stringify(metaToStore), 'PX', this.ttl) : this.redis.set(`${key}:meta`, JSON.stringify(metaToStore)));
     }
 
+    const indexKeys = [
+      ...(metaToStore.tags ?? []).map(tag => getTagIndexKey(tag)),
+      ...getMetadataUrls(metaToStore).map(url => getUrlIndexKey(url)),
+    ];
+
+    for (const indexKey of indexKeys) {
+      await this.redis.sadd(indexKey, key);
+
+      if (typeof this.ttl === 'number') {
+        await this.redis.pexpire(indexKey, this.ttl);
+      }
+    }
+
     return {
       bodyStream: Readable.from(buffer),
       metaData: metaToStore,
@@ -622,6 +622,84 @@ describe('REDIS Plugin Tests', function() {
     });
   });
   
+  describe('REDIS Cache header freshness tests', () => {
+    it('Expires responses according to max-age', async () => {
+      defaultCachedFetch = FetchCache.create({ cache: defaultCache, respectCacheHeaders: true });
+      const url = `${httpBinBaseUrl}/response-headers?Cache-Control=max-age%3D2`;
+
+      response = await defaultCachedFetch(url);
+      assert.strictEqual(response.returnedFromCache, false);
+
+      response = await defaultCachedFetch(url);
+      assert.strictEqual(response.returnedFromCache, true);
+
+      await wait(2100);
+
+      response = await defaultCachedFetch(url);
+      assert.strictEqual(response.returnedFromCache, false);
+    });
+  });
+
+  describe('REDIS Unsafe request invalidation tests', () => {
+    it('Invalidates cached responses for the request URL', async () => {
+      const url = `${httpBinBaseUrl}/anything/item`;
+
+      await (await defaultCachedFetch(url)).text();
+      await (await defaultCachedFetch(url, { method: 'DELETE' })).text();
+
+      response = await defaultCachedFetch(url);
+      assert.strictEqual(response.returnedFromCache, false);
+    });
+  });
+
+  describe('REDIS Invalidation filter tests', () => {
+    it('Invalidates all responses for a URL prefix', async () => {
+      const itemUrl = `${httpBinBaseUrl}/anything/items/1`;
+
+      await (await defaultCachedFetch(itemUrl)).text();
+      await (await defaultCachedFetch(itemUrl, { headers: { Accept: 'text/plain' } })).text();
+      await (await defaultCachedFetch(TEXT_BODY_URL)).text();
+
+      await defaultCache.invalidate({ urlPrefix: `${httpBinBaseUrl}/anything/items/` });
+
+      response = await defaultCachedFetch(itemUrl);
+      assert.strictEqual(response.returnedFromCache, false);
+
+      response = await defaultCachedFetch(itemUrl, { headers: { Accept: 'text/plain' } });
+      assert.strictEqual(response.returnedFromCache, false);
+
+      response = await defaultCachedFetch(TEXT_BODY_URL);
+      assert.strictEqual(response.returnedFromCache, true);
+    });
+
+    it('Ignores keys that other applications store in the database', async () => {
+      await redisClient.set('other:meta', 'not json');
+      await redisClient.set('another:meta', JSON.stringify({ name: 'value' }));
+
+      await defaultCache.invalidate({ urlPrefix: httpBinBaseUrl });
+
+      assert.strictEqual(await redisClient.get('other:meta'), 'not json');
+      assert.strictEqual(await redisClient.get('another:meta'), JSON.stringify({ name: 'value' }));
+    });
+  });
+
+  describe('REDIS Cache tag tests', () => {
+    it('Invalidates tagged responses', async () => {
+      const customerUrl = `${httpBinBaseUrl}/anything/customers/42`;
+
+      await (await defaultCachedFetch(customerUrl, undefined, { tags: ['customer:42'] })).text();
+      await (await defaultCachedFetch(TEXT_BODY_URL, undefined, { tags: ['robots'] })).text();
+
+      await defaultCache.invalidateTags(['customer:42']);
+
+      response = await defaultCachedFetch(customerUrl);
+      assert.strictEqual(response.returnedFromCache, false);
+
+      response = await defaultCachedFetch(TEXT_BODY_URL);
+      assert.strictEqual(response.returnedFromCache, true);
+    });
+  });
+
   describe('REDIS Cache key tests', () => {
     it('Can calculate a cache key and check that it exists', async () => {
       await defaultCachedFetch(TWO_HUNDRED_URL);
@@ -1,23 +1,122 @@
 import assert from 'assert';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
 import { Buffer } from 'buffer';
 import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import cacache from 'cacache';
-import type { INodeFetchCacheCache, NFCResponseMetadata } from '../../types';
+import type { INodeFetchCacheCache, InvalidationFilter, NFCResponseMetadata } from '../../types';
+import { createInvalidationPredicate, getMetadataUrls } from '../../helpers/invalidation.js';
+import { startBackgroundInterval } from '../../helpers/background_interval.js';
+import { createLazyStream } from '../../helpers/streams.js';
 
 type StoredMetadata = {
   emptyBody?: boolean;
-  expiration?: number | undefined;
 } & NFCResponseMetadata;
 
+type FileSystemCacheOptions = {
+  ttl?: number;
+  cacheDirectory?: string;
+  // Maximum total size of the cached bodies, in bytes. The least recently used
+  // entries are evicted to stay within it.
+  maxSize?: number;
+  // How often (in ms) to prune() the cache automatically.
+  pruneInterval?: number;
+  // Whether to read and check the whole body of an entry against its hash
+  // before returning it, instead of only checking its size.
+  verifyContent?: boolean;
+  // Called for each corrupt entry that is found (and removed).
+  onCorruptEntry?: (corruptEntry: CorruptEntry) => void;
+};
+
+type CorruptEntry = {
+  key: string;
+  error: Error;
+};
+
+type CachedObjectInfo = cacache.CacheObject & { size: number };
+
+// Errors that cacache (or the file system) reports for missing, truncated or modified content.
+const corruptContentErrorCodes = new Set(['ENOENT', 'EBADSIZE', 'EINTEGRITY']);
+
+function isCorruptContentError(error: unknown): error is Error {
+  return error instanceof Error && corruptContentErrorCodes.has((error as NodeJS.ErrnoException).code ?? '');
+}
+
+function createBadSizeError(expectedSize: number, actualSize: number) {
+  return Object.assign(
+    new Error(`Bad data size: expected ${expectedSize} bytes, but got ${actualSize}`),
+    { code: 'EBADSIZE' },
+  );
+}
+
 const emptyBuffer = Buffer.alloc(0);
 
+const tagIndexName = 'tags-v1';
+const urlIndexName = 'urls-v1';
+
+// When the maxSize is exceeded, entries are evicted until the total size is
+// this fraction of it, so that the cache isn't listed again on every write.
+const evictionTargetRatio = 0.9;
+
+// Parts of the cacache API that are not in its type definitions.
+const untypedCacache = cacache as unknown as {
+  rm: {
+    entry(cache: string, key: string, options: { removeFully: boolean }): Promise<unknown>;
+  };
+  index: {
+    compact(
+      cache: string,
+      key: string,
+      matchFn: (entryA: cacache.CacheObject, entryB: cacache.CacheObject) => boolean,
+    ): Promise<unknown>;
+  };
+};
+
+// The content of a cacache entry is written before the entry itself, so content
+// that no entry refers to may still be about to get one. It is only removed
+// once it is older than this.
+const unreferencedContentGracePeriod = 60_000;
+
+function sha256(string_: string) {
+  return crypto.createHash('sha256').update(string_).digest('hex');
+}
+
+function isExpired(metaData: StoredMetadata, now = Date.now()) {
+  return Boolean(metaData.expiration && metaData.expiration < now);
+}
+
+// The modification time of an entry's content file is updated whenever the
+// entry is read, so it is the time the entry was last used.
+async function getLastUsedTime(entry: cacache.CacheObject) {
+  try {
+    return (await fs.promises.stat(entry.path)).mtimeMs;
+  } catch {
+    return 0;
+  }
+}
+
 export class FileSystemCache implements INodeFetchCacheCache {
   private readonly ttl?: number | undefined;
   private readonly cacheDirectory: string;
+  private readonly maxSize?: number | undefined;
+  private readonly verifyContent: boolean;
+  private readonly onCorruptEntry?: ((corruptEntry: CorruptEntry) => void) | undefined;
+  // Total size of the cached bodies as far as this instance knows. Other
+  // processes may change it, so it is recalculated whenever entries are evicted.
+  private knownSize?: number | undefined;
 
-  constructor(options: { ttl?: number; cacheDirectory?: string } = {}) {
+  constructor(options: FileSystemCacheOptions = {}) {
     this.ttl = options.ttl;
     this.cacheDirectory = options.cacheDirectory ?? '.cache';
+    this.maxSize = options.maxSize;
+    this.verifyContent = options.verifyContent ?? false;
+    this.onCorruptEntry = options.onCorruptEntry;
+
+    if (options.pruneInterval !== undefined) {
+      startBackgroundInterval(this, options.pruneInterval, async cache => cache.prune());
+    }
   }
 
   async get(key: string, options?: { ignoreExpiration?: boolean }) {
@@ -28,46 +127,292 @@ export class FileSystemCache implements INodeFetchCacheCache {
     }
 
     const storedMetadata = cachedObjectInfo.metadata as StoredMetadata;
-    const { emptyBody, expiration, ...nfcMetadata } = storedMetadata;
+    const { emptyBody, ...nfcMetadata } = storedMetadata;
 
-    if (!options?.ignoreExpiration && expiration && expiration < Date.now()) {
+    if (!options?.ignoreExpiration && isExpired(storedMetadata)) {
       return undefined;
     }
 
+    if (this.maxSize !== undefined) {
+      const now = new Date();
+      await fs.promises.utimes(cachedObjectInfo.path, now, now).catch(() => undefined);
+    }
+
     if (emptyBody) {
       return {
         bodyStream: Readable.from(emptyBuffer),
-        metaData: storedMetadata,
+        metaData: nfcMetadata,
       };
     }
 
-    return {
-      bodyStream: cacache.get.stream.byDigest(this.cacheDirectory, cachedObjectInfo.integrity),
-      metaData: nfcMetadata,
-    };
+    // Corruption that is found here is a cache miss, so the response is fetched again.
+    // Any that is only found while the body is streamed fails the stream instead.
+    try {
+      return {
+        bodyStream: await this.getVerifiedBodyStream(key, cachedObjectInfo as CachedObjectInfo),
+        metaData: nfcMetadata,
+      };
+    } catch (error: unknown) {
+      if (!isCorruptContentError(error)) {
+        throw error;
+      }
+
+      await this.removeCorruptEntry(key, cachedObjectInfo.integrity, error);
+      return undefined;
+    }
   }
 
+  // The index bucket of the key is deleted rather than marked as deleted, so that it doesn't keep growing.
   async remove(key: string) {
-    return cacache.rm.entry(this.cacheDirectory, key);
+    return untypedCacache.rm.entry(this.cacheDirectory, key, { removeFully: true });
+  }
+
+  async removeMatching(predicate: (metaData: NFCResponseMetadata) => boolean) {
+    const entries = await cacache.ls(this.cacheDirectory);
+
+    for (const [key, entry] of Object.entries(entries)) {
+      const { emptyBody, ...nfcMetadata } = entry.metadata as StoredMetadata;
+      if (predicate(nfcMetadata)) {
+        await this.remove(key);
+      }
+    }
+  }
+
+  async invalidate(filter: InvalidationFilter) {
+    await this.removeMatching(createInvalidationPredicate(filter));
+  }
+
+  async invalidateTags(tags: string[]) {
+    for (const tag of tags) {
+      await this.removeIndexedEntries(tagIndexName, tag, metaData => metaData.tags?.includes(tag) ?? false);
+    }
+  }
+
+  async invalidateUrls(urls: string[]) {
+    for (const url of urls) {
+      await this.removeIndexedEntries(urlIndexName, url, metaData => getMetadataUrls(metaData).includes(url));
+    }
+  }
+
+  /**
+   * Removes expired entries and, if there is a maxSize, the least recently
+   * used entries beyond it. Then compacts the index, and removes content that
+   * no entry refers to anymore, and tag and URL index entries for keys that
+   * are no longer cached.
+   */
+  async prune() {
+    const now = Date.now();
+    const entries = await cacache.ls(this.cacheDirectory);
+
+    for (const [key, entry] of Object.entries(entries)) {
+      await (isExpired(entry.metadata as StoredMetadata, now)
+        ? this.remove(key)
+        : untypedCacache.index.compact(this.cacheDirectory, key, (a, b) => a.key === b.key));
+    }
+
+    await this.evictLeastRecentlyUsed();
+    await this.removeUnreferencedContent(now - unreferencedContentGracePeriod);
+    await this.pruneIndex(tagIndexName);
+    await this.pruneIndex(urlIndexName);
   }
 
   async set(key: string, bodyStream: NodeJS.ReadableStream, metaData: NFCResponseMetadata) {
     const metaToStore = {
       ...metaData,
-      expiration: undefined as (undefined | number),
       emptyBody: false,
     };
 
     if (typeof this.ttl === 'number') {
-      metaToStore.expiration = Date.now() + this.ttl;
+      metaToStore.expiration = Math.min(
+        Date.now() + this.ttl,
+        metaData.expiration ?? Number.POSITIVE_INFINITY,
+      );
     }
 
     await this.writeDataToCache(key, metaToStore, bodyStream);
+    await this.addToIndex(tagIndexName, key, metaData.tags ?? []);
+    await this.addToIndex(urlIndexName, key, getMetadataUrls(metaData));
+
+    if (this.maxSize !== undefined) {
+      await this.addToKnownSize(key);
+    }
+
+    const { emptyBody, ...nfcMetadata } = metaToStore;
+
+    // The body is only read back from the cache if it is read, since callers
+    // that already have it, such as write-through caching, just discard it.
+    return {
+      bodyStream: createLazyStream(async () => {
+        const cachedData = await this.get(key, { ignoreExpiration: true });
+        assert(cachedData, 'Failed to cache response');
+        return cachedData.bodyStream;
+      }),
+      metaData: nfcMetadata,
+    };
+  }
+
+  private async getVerifiedBodyStream(key: string, cachedObjectInfo: CachedObjectInfo) {
+    const { integrity, size } = cachedObjectInfo;
+
+    if (this.verifyContent) {
+      return Readable.from(await cacache.get.byDigest(this.cacheDirectory, integrity, { size }));
+    }
+
+    const { size: contentSize } = await fs.promises.stat(cachedObjectInfo.path);
+    if (contentSize !== size) {
+      throw createBadSizeError(size, contentSize);
+    }
+
+    const bodyStream = cacache.get.stream.byDigest(this.cacheDirectory, integrity, { size });
+    bodyStream.on('error', async (error: unknown) => {
+      if (isCorruptContentError(error)) {
+        await this.removeCorruptEntry(key, integrity, error);
+      }
+    });
+
+    return bodyStream;
+  }
+
+  // The content is removed too, since other entries with the same body can't
+  // use it either, and cacache wouldn't replace it when the body is cached again.
+  private async removeCorruptEntry(key: string, integrity: string, error: Error) {
+    await this.remove(key);
+    await cacache.rm.content(this.cacheDirectory, integrity);
+    this.onCorruptEntry?.({ key, error });
+  }
+
+  // Only lists the whole cache if the size may have exceeded the maxSize since it was last listed.
+  private async addToKnownSize(key: string) {
+    if (this.knownSize === undefined) {
+      await this.evictLeastRecentlyUsed(key);
+      return;
+    }
+
+    const cachedObjectInfo = await cacache.get.info(this.cacheDirectory, key) as CachedObjectInfo | undefined;
+    this.knownSize += cachedObjectInfo?.size ?? 0;
+
+    if (this.knownSize > this.maxSize!) {
+      await this.evictLeastRecentlyUsed(key);
+    }
+  }
+
+  // The entry with the keptKey (the one that was just set) is never evicted,
+  // even if it is larger than the maxSize on its own.
+  private async evictLeastRecentlyUsed(keptKey?: string) {
+    if (this.maxSize === undefined) {
+      return;
+    }
+
+    const entries = Object.values(await cacache.ls(this.cacheDirectory));
+    let totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+    this.knownSize = totalSize;
+
+    if (totalSize <= this.maxSize) {
+      return;
+    }
+
+    const targetSize = this.maxSize * evictionTargetRatio;
+    const lastUsedTimes = new Map<cacache.CacheObject, number>();
+    for (const entry of entries) {
+      lastUsedTimes.set(entry, entry.key === keptKey ? Number.POSITIVE_INFINITY : await getLastUsedTime(entry));
+    }
+
+    entries.sort((a, b) => lastUsedTimes.get(a)! - lastUsedTimes.get(b)!);
+
+    const evictedEntries = [];
+    while (totalSize > targetSize && entries.length > 0 && entries[0]!.key !== keptKey) {
+      const entry = entries.shift()!;
+      await this.remove(entry.key);
+      evictedEntries.push(entry);
+      totalSize -= entry.size;
+    }
+
+    this.knownSize = totalSize;
 
-    const cachedData = await this.get(key, { ignoreExpiration: true });
-    assert(cachedData, 'Failed to cache response');
+    // Content is shared by entries with the same body, so it can only be removed
+    // if none of the remaining entries refer to it.
+    const remainingIntegrities = new Set(entries.map(entry => entry.integrity));
+    for (const { integrity } of evictedEntries) {
+      if (!remainingIntegrities.has(integrity)) {
+        await cacache.rm.content(this.cacheDirectory, integrity);
+      }
+    }
+  }
+
+  // Unlike cacache.verify(), this is safe to run while entries are being written.
+  private async removeUnreferencedContent(modifiedBefore: number) {
+    const contentDirectory = path.join(this.cacheDirectory, 'content-v2');
+    const contentFiles = await fs.promises.readdir(contentDirectory, { recursive: true }).catch(() => []);
+    const entries = await cacache.ls(this.cacheDirectory);
+    const referencedPaths = new Set(Object.values(entries).map(entry => path.resolve(entry.path)));
+
+    for (const contentFile of contentFiles) {
+      const contentPath = path.resolve(contentDirectory, contentFile);
+      if (referencedPaths.has(contentPath)) {
+        continue;
+      }
+
+      const stats = await fs.promises.stat(contentPath).catch(() => undefined);
+      if (stats?.isFile() && stats.mtimeMs < modifiedBefore) {
+        await fs.promises.rm(contentPath, { force: true });
+      }
+    }
+  }
+
+  private async removeIndexedEntries(
+    indexName: string,
+    value: string,
+    isIndexed: (metaData: StoredMetadata) => boolean,
+  ) {
+    const indexDirectory = this.getIndexDirectory(indexName, value);
+    const indexFiles = await fs.promises.readdir(indexDirectory).catch(() => []);
+
+    for (const indexFile of indexFiles) {
+      const indexFilePath = path.join(indexDirectory, indexFile);
+      const key = await fs.promises.readFile(indexFilePath, 'utf8');
+      const cachedObjectInfo = await cacache.get.info(this.cacheDirectory, key);
+
+      // The entry may have been replaced by one without the tag or URL since it was indexed.
+      if (cachedObjectInfo && isIndexed(cachedObjectInfo.metadata as StoredMetadata)) {
+        await this.remove(key);
+      }
 
-    return cachedData;
+      await fs.promises.rm(indexFilePath, { force: true });
+    }
+  }
+
+  private async pruneIndex(indexName: string) {
+    const indexDirectory = path.join(this.cacheDirectory, indexName);
+    const valueDirectories = await fs.promises.readdir(indexDirectory).catch(() => []);
+
+    for (const valueDirectory of valueDirectories) {
+      const valueDirectoryPath = path.join(indexDirectory, valueDirectory);
+
+      for (const indexFile of await fs.promises.readdir(valueDirectoryPath)) {
+        const indexFilePath = path.join(valueDirectoryPath, indexFile);
+        const key = await fs.promises.readFile(indexFilePath, 'utf8');
+
+        if (!await cacache.get.info(this.cacheDirectory, key)) {
+          await fs.promises.rm(indexFilePath, { force: true });
+        }
+      }
+
+      await fs.promises.rmdir(valueDirectoryPath).catch(() => undefined);
+    }
+  }
+
+  // The tag and URL indexes have a directory per tag or URL, with a file per
+  // key, so that concurrent writes don't need to update the same file.
+  private getIndexDirectory(indexName: string, value: string) {
+    return path.join(this.cacheDirectory, indexName, sha256(value));
+  }
+
+  private async addToIndex(indexName: string, key: string, values: string[]) {
+    for (const value of values) {
+      const indexDirectory = this.getIndexDirectory(indexName, value);
+      await fs.promises.mkdir(indexDirectory, { recursive: true });
+      await fs.promises.writeFile(path.join(indexDirectory, sha256(key)), key);
+    }
   }
 
   private async writeDataToCache(
@@ -75,16 +420,10 @@ export class FileSystemCache implements INodeFetchCacheCache {
     storedMetadata: StoredMetadata,
     stream: NodeJS.ReadableStream,
   ) {
+    // The entry is only added to the index once the whole body has been written,
+    // so if the body stream fails, nothing is cached.
     try {
-      await new Promise((fulfill, reject) => {
-        stream.pipe(cacache.put.stream(this.cacheDirectory, key, { metadata: storedMetadata }))
-          .on('integrity', (i: string) => {
-            fulfill(i);
-          })
-          .on('error', (error: Error) => {
-            reject(error);
-          });
-      });
+      await pipeline(stream, cacache.put.stream(this.cacheDirectory, key, { metadata: storedMetadata }));
     } catch (error: any) {
       if (error.code !== 'ENODATA') {
         throw error as Error;
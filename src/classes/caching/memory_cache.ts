@@ -1,34 +1,88 @@
-import assert from 'assert';
 import { Buffer } from 'buffer';
 import { Readable } from 'stream';
-import type { INodeFetchCacheCache, NFCResponseMetadata } from '../../types.js';
-import { KeyTimeout } from './key_timeout.js';
-
-async function streamToBuffer(stream: NodeJS.ReadableStream): Promise<Buffer> {
-  const chunks: Buffer[] = [];
-  return new Promise((resolve, reject) => {
-    stream.on('data', chunk =>
-      chunks.push(chunk as Buffer),
-    ).on('error', error => {
-      reject(error);
-    }).on('end', () => {
-      resolve(Buffer.concat(chunks));
-    });
-  });
+import type { INodeFetchCacheCache, InvalidationFilter, NFCResponseMetadata } from '../../types.js';
+import { streamToBuffer } from '../../helpers/streams.js';
+import { createInvalidationPredicate, getMetadataUrls } from '../../helpers/invalidation.js';
+import { startBackgroundInterval } from '../../helpers/background_interval.js';
+
+type MemoryCacheOptions = {
+  ttl?: number;
+  // Maximum number of entries. The least recently used entries are evicted to stay within it.
+  maxEntries?: number;
+  // Maximum total size of the cached bodies, in bytes.
+  maxBytes?: number;
+  // Responses with bodies larger than this (in bytes) are not cached.
+  maxBodySize?: number;
+  // How often (in ms) to remove entries whose TTL has passed. Without it, they are
+  // only removed when they are requested or evicted.
+  sweepInterval?: number;
+};
+
+type CachedValue = {
+  bodyBuffer: Buffer;
+  metaData: NFCResponseMetadata;
+  // Time (in ms since the epoch) after which the TTL has passed.
+  ttlExpiration: number;
+};
+
+function isExpired(metaData: NFCResponseMetadata) {
+  return metaData.expiration !== undefined && metaData.expiration < Date.now();
+}
+
+function addToIndex(index: Map<string, Set<string>>, key: string, values: string[]) {
+  for (const value of values) {
+    const keys = index.get(value) ?? new Set();
+    keys.add(key);
+    index.set(value, keys);
+  }
+}
+
+function removeFromIndex(index: Map<string, Set<string>>, key: string, values: string[]) {
+  for (const value of values) {
+    const keys = index.get(value);
+    keys?.delete(key);
+
+    if (keys?.size === 0) {
+      index.delete(value);
+    }
+  }
 }
 
 export class MemoryCache implements INodeFetchCacheCache {
   private readonly ttl?: number | undefined;
-  private readonly keyTimeout = new KeyTimeout();
-  private readonly cache = new Map<string, { bodyBuffer: Buffer; metaData: NFCResponseMetadata }>();
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private readonly maxBodySize: number;
+  // Entries are kept in the order they were last used in, least recent first.
+  private readonly cache = new Map<string, CachedValue>();
+  // Maps each tag to the keys of the entries that have it.
+  private readonly tagIndex = new Map<string, Set<string>>();
+  // Maps each request and response URL to the keys of the entries for it.
+  private readonly urlIndex = new Map<string, Set<string>>();
+  private bytes = 0;
 
-  constructor(options?: { ttl?: number }) {
+  constructor(options?: MemoryCacheOptions) {
     this.ttl = options?.ttl;
+    this.maxEntries = options?.maxEntries ?? Number.POSITIVE_INFINITY;
+    this.maxBytes = options?.maxBytes ?? Number.POSITIVE_INFINITY;
+    this.maxBodySize = options?.maxBodySize ?? Number.POSITIVE_INFINITY;
+
+    if (options?.sweepInterval !== undefined) {
+      startBackgroundInterval(this, options.sweepInterval, async cache => cache.sweep());
+    }
   }
 
-  async get(key: string) {
+  async get(key: string, options?: { ignoreExpiration?: boolean }) {
     const cachedValue = this.cache.get(key);
-    if (cachedValue) {
+    if (cachedValue && cachedValue.ttlExpiration < Date.now()) {
+      await this.remove(key);
+      return undefined;
+    }
+
+    if (cachedValue && (options?.ignoreExpiration || !isExpired(cachedValue.metaData))) {
+      this.cache.delete(key);
+      this.cache.set(key, cachedValue);
+
       return {
         bodyStream: Readable.from(cachedValue.bodyBuffer),
         metaData: cachedValue.metaData,
@@ -39,21 +93,82 @@ export class MemoryCache implements INodeFetchCacheCache {
   }
 
   async remove(key: string) {
-    this.keyTimeout.clearTimeout(key);
+    const cachedValue = this.cache.get(key);
+    if (!cachedValue) {
+      return;
+    }
+
+    removeFromIndex(this.tagIndex, key, cachedValue.metaData.tags ?? []);
+    removeFromIndex(this.urlIndex, key, getMetadataUrls(cachedValue.metaData));
+    this.bytes -= cachedValue.bodyBuffer.length;
     this.cache.delete(key);
   }
 
+  async removeMatching(predicate: (metaData: NFCResponseMetadata) => boolean) {
+    for (const [key, { metaData }] of this.cache) {
+      if (predicate(metaData)) {
+        await this.remove(key);
+      }
+    }
+  }
+
+  async invalidate(filter: InvalidationFilter) {
+    await this.removeMatching(createInvalidationPredicate(filter));
+  }
+
+  async invalidateTags(tags: string[]) {
+    for (const tag of tags) {
+      for (const key of [...this.tagIndex.get(tag) ?? []]) {
+        await this.remove(key);
+      }
+    }
+  }
+
+  async invalidateUrls(urls: string[]) {
+    for (const url of urls) {
+      for (const key of [...this.urlIndex.get(url) ?? []]) {
+        await this.remove(key);
+      }
+    }
+  }
+
   async set(key: string, bodyStream: NodeJS.ReadableStream, metaData: NFCResponseMetadata) {
     const bodyBuffer = await streamToBuffer(bodyStream);
-    this.cache.set(key, { bodyBuffer, metaData });
+    await this.remove(key);
+
+    if (bodyBuffer.length <= this.maxBodySize) {
+      const ttlExpiration = typeof this.ttl === 'number' ? Date.now() + this.ttl : Number.POSITIVE_INFINITY;
+      this.cache.set(key, { bodyBuffer, metaData, ttlExpiration });
+      this.bytes += bodyBuffer.length;
+      addToIndex(this.tagIndex, key, metaData.tags ?? []);
+      addToIndex(this.urlIndex, key, getMetadataUrls(metaData));
 
-    if (typeof this.ttl === 'number') {
-      this.keyTimeout.updateTimeout(key, this.ttl, async () => this.remove(key));
+      await this.evictLeastRecentlyUsed();
     }
 
-    const cachedResult = await this.get(key);
-    assert(cachedResult, 'Failed to cache response');
+    return {
+      bodyStream: Readable.from(bodyBuffer),
+      metaData,
+    };
+  }
 
-    return cachedResult;
+  private async sweep() {
+    const now = Date.now();
+
+    for (const [key, { ttlExpiration }] of this.cache) {
+      if (ttlExpiration < now) {
+        await this.remove(key);
+      }
+    }
+  }
+
+  private async evictLeastRecentlyUsed() {
+    for (const key of this.cache.keys()) {
+      if (this.cache.size <= this.maxEntries && this.bytes <= this.maxBytes) {
+        return;
+      }
+
+      await this.remove(key);
+    }
   }
 }
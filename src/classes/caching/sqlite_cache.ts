@@ -0,0 +1,351 @@
+import fs from 'fs';
+import path from 'path';
+import { Buffer } from 'buffer';
+import { Readable } from 'stream';
+import type { INodeFetchCacheCache, InvalidationFilter, NFCResponseMetadata } from '../../types.js';
+import { streamToBuffer } from '../../helpers/streams.js';
+import { createInvalidationPredicate } from '../../helpers/invalidation.js';
+
+type SqliteCacheOptions = {
+  // Path of the database file. If undefined, '.cache.sqlite' is used by default.
+  databasePath?: string;
+  ttl?: number;
+  // Maximum number of entries. The least recently used entries are evicted to stay within it.
+  maxEntries?: number;
+  // Maximum total size of the cached bodies, in bytes.
+  maxSize?: number;
+  // How long (in ms) to wait for other processes to release the database. Defaults to 250 ms.
+  // node:sqlite is synchronous, so the event loop is blocked while waiting.
+  busyTimeout?: number;
+};
+
+type CacheQuery = {
+  // Matches entries whose request or response URL is this URL.
+  url?: string;
+  tag?: string;
+};
+
+// The subset of the node:sqlite API that is used here. It is not in the
+// type definitions of all supported Node.js versions.
+type SqliteValue = null | number | bigint | string | Uint8Array;
+type SqliteRow = Record<string, SqliteValue>;
+type SqliteStatement = {
+  run(...parameters: SqliteValue[]): unknown;
+  get(...parameters: SqliteValue[]): SqliteRow | undefined;
+  all(...parameters: SqliteValue[]): SqliteRow[];
+};
+type SqliteDatabase = {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+  close(): void;
+};
+type SqliteModule = {
+  DatabaseSync: new (path: string) => SqliteDatabase;
+};
+
+// Kept in a variable so that TypeScript doesn't try to resolve the module.
+const sqliteModuleName = 'node:sqlite';
+
+const schema = `
+  CREATE TABLE IF NOT EXISTS entries (
+    key TEXT PRIMARY KEY,
+    body BLOB NOT NULL,
+    meta TEXT NOT NULL,
+    url TEXT NOT NULL,
+    request_url TEXT,
+    size INTEGER NOT NULL,
+    expiration INTEGER,
+    last_used INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS entries_url ON entries (url);
+  CREATE INDEX IF NOT EXISTS entries_request_url ON entries (request_url);
+  CREATE INDEX IF NOT EXISTS entries_last_used ON entries (last_used);
+  CREATE TABLE IF NOT EXISTS tags (
+    tag TEXT NOT NULL,
+    key TEXT NOT NULL REFERENCES entries (key) ON DELETE CASCADE,
+    PRIMARY KEY (tag, key)
+  );
+  CREATE INDEX IF NOT EXISTS tags_key ON tags (key);
+`;
+
+async function importSqlite() {
+  try {
+    return await import(sqliteModuleName) as SqliteModule;
+  } catch (error: unknown) {
+    throw new Error('SqliteCache requires the node:sqlite module, which is available in Node.js 22.5.0 and later', { cause: error });
+  }
+}
+
+// The primary result code of SQLITE_BUSY and of the extended codes based on it.
+const sqliteBusy = 5;
+
+function isBusyError(error: unknown) {
+  const errcode = (error as { errcode?: unknown } | undefined)?.errcode;
+  return typeof errcode === 'number' && errcode % 256 === sqliteBusy;
+}
+
+function isExpired(metaData: NFCResponseMetadata, now = Date.now()) {
+  return metaData.expiration !== undefined && metaData.expiration < now;
+}
+
+export class SqliteCache implements INodeFetchCacheCache {
+  private readonly ttl?: number | undefined;
+  private readonly databasePath: string;
+  private readonly maxEntries?: number | undefined;
+  private readonly maxSize?: number | undefined;
+  private readonly busyTimeout: number;
+  private database?: Promise<SqliteDatabase> | undefined;
+  // Times that entries were last used at, which are written with the next entry.
+  private readonly pendingLastUsed = new Map<string, number>();
+
+  constructor(options: SqliteCacheOptions = {}) {
+    this.ttl = options.ttl;
+    this.databasePath = options.databasePath ?? '.cache.sqlite';
+    this.maxEntries = options.maxEntries;
+    this.maxSize = options.maxSize;
+    this.busyTimeout = options.busyTimeout ?? 250;
+  }
+
+  async get(key: string, options?: { ignoreExpiration?: boolean }) {
+    const database = await this.getDatabase();
+    const row = database.prepare('SELECT body, meta FROM entries WHERE key = ?').get(key);
+
+    if (!row) {
+      return undefined;
+    }
+
+    const metaData = JSON.parse(row['meta'] as string) as NFCResponseMetadata;
+
+    if (!options?.ignoreExpiration && isExpired(metaData)) {
+      return undefined;
+    }
+
+    // Reading an entry doesn't write to the database, since that would need the
+    // write lock, which another process may be holding.
+    if (this.hasLimits()) {
+      this.pendingLastUsed.set(key, Date.now());
+    }
+
+    return {
+      bodyStream: Readable.from(Buffer.from(row['body'] as Uint8Array)),
+      metaData,
+    };
+  }
+
+  async remove(key: string) {
+    const database = await this.getDatabase();
+    database.prepare('DELETE FROM entries WHERE key = ?').run(key);
+  }
+
+  async removeMatching(predicate: (metaData: NFCResponseMetadata) => boolean) {
+    const database = await this.getDatabase();
+    const rows = database.prepare('SELECT key, meta FROM entries').all();
+    const deleteStatement = database.prepare('DELETE FROM entries WHERE key = ?');
+
+    for (const row of rows) {
+      if (predicate(JSON.parse(row['meta'] as string) as NFCResponseMetadata)) {
+        deleteStatement.run(row['key']!);
+      }
+    }
+  }
+
+  async invalidate(filter: InvalidationFilter) {
+    await this.removeMatching(createInvalidationPredicate(filter));
+  }
+
+  async invalidateTags(tags: string[]) {
+    const database = await this.getDatabase();
+    const deleteStatement = database.prepare('DELETE FROM entries WHERE key IN (SELECT key FROM tags WHERE tag = ?)');
+
+    for (const tag of tags) {
+      deleteStatement.run(tag);
+    }
+  }
+
+  async invalidateUrls(urls: string[]) {
+    const database = await this.getDatabase();
+    const deleteStatement = database.prepare('DELETE FROM entries WHERE url = ? OR request_url = ?');
+
+    for (const url of urls) {
+      deleteStatement.run(url, url);
+    }
+  }
+
+  /**
+   * Lists the keys and metadata of the cached entries, optionally only those
+   * for a URL or with a tag, including expired entries.
+   */
+  async list(query: CacheQuery = {}) {
+    const database = await this.getDatabase();
+    const conditions = [];
+    const parameters = [];
+
+    if (query.url !== undefined) {
+      const url = new URL(query.url).href;
+      conditions.push('(url = ? OR request_url = ?)');
+      parameters.push(url, url);
+    }
+
+    if (query.tag !== undefined) {
+      conditions.push('key IN (SELECT key FROM tags WHERE tag = ?)');
+      parameters.push(query.tag);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = database.prepare(`SELECT key, meta FROM entries ${where} ORDER BY key`).all(...parameters);
+
+    return rows.map(row => ({
+      key: row['key'] as string,
+      metaData: JSON.parse(row['meta'] as string) as NFCResponseMetadata,
+    }));
+  }
+
+  /**
+   * Removes expired entries.
+   */
+  async prune() {
+    const database = await this.getDatabase();
+    database.prepare('DELETE FROM entries WHERE expiration < ?').run(Date.now());
+  }
+
+  async close() {
+    if (this.database) {
+      const database = await this.database;
+      this.database = undefined;
+      database.close();
+    }
+  }
+
+  async set(key: string, bodyStream: NodeJS.ReadableStream, metaData: NFCResponseMetadata) {
+    const bodyBuffer = await streamToBuffer(bodyStream);
+    const metaToStore = { ...metaData };
+
+    if (typeof this.ttl === 'number') {
+      metaToStore.expiration = Math.min(
+        Date.now() + this.ttl,
+        metaData.expiration ?? Number.POSITIVE_INFINITY,
+      );
+    }
+
+    const database = await this.getDatabase();
+
+    try {
+      this.inTransaction(database, () => {
+        this.writeLastUsed(database);
+
+        // The entry is deleted rather than replaced so that its tags are deleted with it.
+        database.prepare('DELETE FROM entries WHERE key = ?').run(key);
+        database.prepare(`
+          INSERT INTO entries (key, body, meta, url, request_url, size, expiration, last_used)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+          key,
+          bodyBuffer,
+          JSON.stringify(metaToStore),
+          metaToStore.url,
+          metaToStore.requestUrl ?? null,
+          bodyBuffer.length,
+          metaToStore.expiration ?? null,
+          Date.now(),
+        );
+
+        const insertTagStatement = database.prepare('INSERT OR IGNORE INTO tags (tag, key) VALUES (?, ?)');
+        for (const tag of metaToStore.tags ?? []) {
+          insertTagStatement.run(tag, key);
+        }
+
+        this.evictLeastRecentlyUsed(database, key);
+      });
+    } catch (error: unknown) {
+      // If another process holds the write lock for longer than the busy timeout,
+      // the response is returned without being cached, rather than failing.
+      if (!isBusyError(error)) {
+        throw error;
+      }
+    }
+
+    return {
+      bodyStream: Readable.from(bodyBuffer),
+      metaData: metaToStore,
+    };
+  }
+
+  private writeLastUsed(database: SqliteDatabase) {
+    const updateStatement = database.prepare('UPDATE entries SET last_used = ? WHERE key = ?');
+
+    for (const [key, lastUsed] of this.pendingLastUsed) {
+      updateStatement.run(lastUsed, key);
+    }
+
+    this.pendingLastUsed.clear();
+  }
+
+  private hasLimits() {
+    return this.maxEntries !== undefined || this.maxSize !== undefined;
+  }
+
+  // The entry with the keptKey (the one that was just set) is never evicted,
+  // even if it is larger than the maxSize on its own.
+  private evictLeastRecentlyUsed(database: SqliteDatabase, keptKey: string) {
+    if (!this.hasLimits()) {
+      return;
+    }
+
+    database.prepare(`
+      DELETE FROM entries WHERE key != ? AND key IN (
+        SELECT key FROM (
+          SELECT
+            key,
+            SUM(size) OVER (ORDER BY key = ? DESC, last_used DESC, rowid DESC) AS total_size,
+            ROW_NUMBER() OVER (ORDER BY key = ? DESC, last_used DESC, rowid DESC) AS position
+          FROM entries
+        )
+        WHERE total_size > ? OR position > ?
+      )
+    `).run(
+      keptKey,
+      keptKey,
+      keptKey,
+      this.maxSize ?? Number.MAX_SAFE_INTEGER,
+      this.maxEntries ?? Number.MAX_SAFE_INTEGER,
+    );
+  }
+
+  // BEGIN IMMEDIATE takes the write lock up front, so that concurrent
+  // writers from other processes wait for each other (up to the busy timeout)
+  // instead of failing when they try to upgrade a read lock.
+  private inTransaction(database: SqliteDatabase, action: () => void) {
+    database.exec('BEGIN IMMEDIATE');
+
+    try {
+      action();
+      database.exec('COMMIT');
+    } catch (error: unknown) {
+      database.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private async getDatabase() {
+    // If the database can't be opened, the next call tries again.
+    this.database ??= this.openDatabase().catch((error: unknown) => {
+      this.database = undefined;
+      throw error;
+    });
+
+    return this.database;
+  }
+
+  private async openDatabase() {
+    const { DatabaseSync } = await importSqlite();
+    await fs.promises.mkdir(path.dirname(this.databasePath), { recursive: true });
+
+    const database = new DatabaseSync(this.databasePath);
+    database.exec(`PRAGMA busy_timeout = ${Math.round(this.busyTimeout)}`);
+    database.exec('PRAGMA journal_mode = WAL');
+    database.exec('PRAGMA foreign_keys = ON');
+    database.exec(schema);
+
+    return database;
+  }
+}
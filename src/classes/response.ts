@@ -55,6 +55,8 @@ async function createNFCResponseClass() {
       public readonly ejectFromCache: () => Promise<unknown>,
       public readonly returnedFromCache: boolean,
       public readonly isCacheMiss = false,
+      public readonly isStale = false,
+      public readonly isStaleIfError = false,
     ) {
       super(
         Readable.from(bodyStream),
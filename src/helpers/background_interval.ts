@@ -0,0 +1,27 @@
+/**
+ * Periodically calls an async function of the target for as long as the
+ * target is in use. The interval only holds a weak reference to the target,
+ * so that it doesn't keep an unused cache in memory, and is unref'd, so that
+ * it doesn't keep the process alive. Errors are ignored, since there is no
+ * caller to report them to.
+ */
+export function startBackgroundInterval<TTarget extends object>(
+  target: TTarget,
+  intervalMs: number,
+  action: (target: TTarget) => Promise<unknown>,
+) {
+  const targetReference = new WeakRef(target);
+  const interval = setInterval(async () => {
+    const currentTarget = targetReference.deref();
+    if (!currentTarget) {
+      clearInterval(interval);
+      return;
+    }
+
+    try {
+      await action(currentTarget);
+    } catch {}
+  }, intervalMs);
+
+  interval.unref();
+}
@@ -0,0 +1,199 @@
+import { Buffer } from 'buffer';
+
+export type BodyNormalizer = (body: string, contentType: string | undefined) => string | Promise<string>;
+
+// Characters that GraphQL never needs whitespace around.
+const graphQlPunctuators = new Set(['!', '$', '&', '(', ')', '.', ':', '=', '@', '[', ']', '{', '|', '}']);
+
+function isJsonContentType(contentType: string | undefined) {
+  return /^application\/([\w.-]+\+)?json\s*(;|$)/i.test(contentType ?? '');
+}
+
+// Numbers are kept as they are written, so that integers too large to be
+// represented exactly as JS numbers aren't rounded to the same value.
+class JsonNumber {
+  constructor(readonly literal: string) {}
+}
+
+const jsonTokenPattern = /\s*("(?:[^"\\]|\\.)*"|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null|[{}[\]:,])/y;
+
+/**
+ * Parses JSON like JSON.parse(), except that numbers are parsed into
+ * JsonNumbers. Throws if the text is not valid JSON.
+ */
+function parseJsonPreservingNumbers(text: string) {
+  // Validates the text, so that the parser below only needs to handle valid JSON.
+  JSON.parse(text);
+
+  const tokens: string[] = [];
+  jsonTokenPattern.lastIndex = 0;
+  for (let match = jsonTokenPattern.exec(text); match; match = jsonTokenPattern.exec(text)) {
+    tokens.push(match[1]!);
+  }
+
+  let position = 0;
+
+  const parseValue = (): unknown => {
+    const token = tokens[position++]!;
+
+    if (token === '{') {
+      const entries: Array<[string, unknown]> = [];
+
+      while (tokens[position] !== '}') {
+        const key = JSON.parse(tokens[position]!) as string;
+        position += 2;
+        entries.push([key, parseValue()]);
+        position += tokens[position] === ',' ? 1 : 0;
+      }
+
+      position++;
+      return Object.fromEntries(entries);
+    }
+
+    if (token === '[') {
+      const items: unknown[] = [];
+
+      while (tokens[position] !== ']') {
+        items.push(parseValue());
+        position += tokens[position] === ',' ? 1 : 0;
+      }
+
+      position++;
+      return items;
+    }
+
+    return /^[-\d]/.test(token) ? new JsonNumber(token) : JSON.parse(token) as unknown;
+  };
+
+  return parseValue();
+}
+
+// Like JSON.stringify(), but with sorted keys, and JsonNumbers written as they were parsed.
+function stringifyCanonicalJson(value: unknown): string {
+  if (value instanceof JsonNumber) {
+    return value.literal;
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stringifyCanonicalJson(item)).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const object = value as Record<string, unknown>;
+    const entries = Object.keys(object)
+      .sort()
+      .filter(key => object[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stringifyCanonicalJson(object[key])}`);
+
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+function readGraphQlString(query: string, start: number) {
+  const delimiter = query.startsWith('"""', start) ? '"""' : '"';
+  let end = start + delimiter.length;
+
+  while (end < query.length && !query.startsWith(delimiter, end)) {
+    end += query[end] === '\\' ? 2 : 1;
+  }
+
+  return query.slice(start, end + delimiter.length);
+}
+
+/**
+ * Normalizes a GraphQL document by removing comments and insignificant
+ * whitespace and commas, leaving string values untouched.
+ */
+function normalizeGraphQlQuery(query: string) {
+  const tokens: string[] = [];
+  let index = 0;
+
+  while (index < query.length) {
+    const character = query[index]!;
+
+    if (character === '#') {
+      while (index < query.length && query[index] !== '\n' && query[index] !== '\r') {
+        index++;
+      }
+    } else if (/[\s,]/.test(character)) {
+      index++;
+    } else if (character === '"') {
+      const string = readGraphQlString(query, index);
+      tokens.push(string);
+      index += string.length;
+    } else if (query.startsWith('...', index)) {
+      tokens.push('...');
+      index += 3;
+    } else if (graphQlPunctuators.has(character)) {
+      tokens.push(character);
+      index++;
+    } else {
+      const name = /^[^\s,#"!$&().:=@[\]{|}]+/.exec(query.slice(index))![0];
+      tokens.push(name);
+      index += name.length;
+    }
+  }
+
+  return tokens.reduce((normalized, token) => {
+    const previous = normalized.at(-1) ?? '';
+    const needsSpace = /[\w"]$/.test(previous) && /^[\w"]/.test(token);
+    return normalized + (needsSpace ? ' ' : '') + token;
+  }, '');
+}
+
+function normalizeGraphQlRequest(request: unknown): unknown {
+  if (Array.isArray(request)) {
+    return request.map(item => normalizeGraphQlRequest(item));
+  }
+
+  if (!request || typeof request !== 'object' || request instanceof JsonNumber) {
+    return request;
+  }
+
+  // Other fields (such as the id of a persisted query) are kept as they are.
+  const { query } = request as Record<string, unknown>;
+
+  return typeof query === 'string'
+    ? { ...request, query: normalizeGraphQlQuery(query) }
+    : request;
+}
+
+function normalizeJson(body: string, transform: (value: unknown) => unknown = value => value) {
+  try {
+    return stringifyCanonicalJson(transform(parseJsonPreservingNumbers(body)));
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Normalizes a text request body for its cache key. The 'json' mode hashes JSON
+ * bodies in a canonical form (with sorted keys and no whitespace), and the
+ * 'graphql' mode additionally normalizes the query document of GraphQL
+ * requests. Only the cache key is affected, not the body that is sent.
+ */
+export async function normalizeBody(
+  body: unknown,
+  contentType: string | undefined,
+  normalizer: 'json' | 'graphql' | BodyNormalizer | undefined,
+) {
+  if (!normalizer || (typeof body !== 'string' && !Buffer.isBuffer(body))) {
+    return body;
+  }
+
+  const text = body.toString();
+
+  if (typeof normalizer === 'function') {
+    return normalizer(text, contentType);
+  }
+
+  if (!isJsonContentType(contentType)) {
+    return body;
+  }
+
+  return normalizer === 'graphql'
+    ? normalizeJson(text, normalizeGraphQlRequest)
+    : normalizeJson(text);
+}
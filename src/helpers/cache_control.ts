@@ -0,0 +1,39 @@
+export type CacheControlDirectives = Map<string, string | undefined>;
+
+export function getHeaderValue(headers: Record<string, string[]>, name: string) {
+  const values = headers[name.toLowerCase()];
+  if (!values || values.length === 0) {
+    return undefined;
+  }
+
+  return values.join(', ');
+}
+
+export function parseCacheControl(value: string | undefined): CacheControlDirectives {
+  const directives: CacheControlDirectives = new Map();
+
+  for (const part of value?.split(',') ?? []) {
+    const [rawName, ...rawValue] = part.split('=');
+    const name = rawName!.trim().toLowerCase();
+
+    if (name) {
+      const directiveValue = rawValue.join('=').trim().replace(/^"(.*)"$/, '$1');
+      directives.set(name, directiveValue || undefined);
+    }
+  }
+
+  return directives;
+}
+
+export function parseSeconds(value: string | undefined) {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const seconds = Number.parseInt(value, 10);
+  return Number.isNaN(seconds) ? undefined : Math.max(0, seconds);
+}
+
+export function getDirectiveSeconds(directives: CacheControlDirectives, name: string) {
+  return parseSeconds(directives.get(name));
+}
@@ -0,0 +1,64 @@
+import type { CacheKeyExplanation } from './cache_keys.js';
+
+export type CacheKeyDifference = {
+  path: string;
+  a: unknown;
+  b: unknown;
+};
+
+function isHeaderPairs(value: unknown): value is string[][] {
+  return Array.isArray(value)
+    && value.every(item => Array.isArray(item) && item.length === 2 && item.every(part => typeof part === 'string'));
+}
+
+// Headers are compared by name rather than by position in the list.
+function headerPairsToObject(pairs: string[][]) {
+  const headers: Record<string, string[]> = {};
+  for (const [name, value] of pairs) {
+    (headers[name!] ??= []).push(value!);
+  }
+
+  return headers;
+}
+
+function collectDifferences(a: unknown, b: unknown, path: string, differences: CacheKeyDifference[]) {
+  if (path.endsWith('.headers') && isHeaderPairs(a) && isHeaderPairs(b)) {
+    collectDifferences(headerPairsToObject(a), headerPairsToObject(b), path, differences);
+    return;
+  }
+
+  const aIsObject = a !== null && typeof a === 'object' && !Array.isArray(a);
+  const bIsObject = b !== null && typeof b === 'object' && !Array.isArray(b);
+
+  if (aIsObject && bIsObject) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      collectDifferences(
+        (a as Record<string, unknown>)[key],
+        (b as Record<string, unknown>)[key],
+        `${path}.${key}`,
+        differences,
+      );
+    }
+
+    return;
+  }
+
+  if (JSON.stringify(a) !== JSON.stringify(b)) {
+    differences.push({ path, a, b });
+  }
+}
+
+/**
+ * Lists the fields that differ between two cache key explanations (from
+ * `explainCacheKey`), such as 'init.headers.accept' or 'resource.url'.
+ */
+export function diffCacheKeys(a: CacheKeyExplanation, b: CacheKeyExplanation) {
+  const differences: CacheKeyDifference[] = [];
+
+  for (const field of ['resource', 'init', 'version'] as const) {
+    collectDifferences(a[field], b[field], field, differences);
+  }
+
+  return differences;
+}
@@ -2,34 +2,188 @@ import fs from 'fs';
 import crypto from 'crypto';
 import assert from 'assert';
 import { Buffer } from 'buffer';
+import { Stream } from 'stream';
+import { types } from 'util';
 import type { Request as NodeFetchRequestType } from 'node-fetch';
 import type { FetchInit, FetchResource } from '../types.js';
 import { FormData } from '../types.js';
 import { getNodeFetch } from './node_fetch_imports.js';
+import { getHeaderEntries, getRequestHeader, requestCacheControlDirectives } from './headers.js';
+import { type BodyNormalizer, normalizeBody } from './body_normalization.js';
 
-export const CACHE_VERSION = 6;
+export const CACHE_VERSION = 8;
 
-function md5(string_: string) {
-  return crypto.createHash('md5').update(string_).digest('hex');
+function hash(string_: string, algorithm: CacheKeyHashAlgorithm = 'md5') {
+  return crypto.createHash(algorithm).update(string_).digest('hex');
 }
 
-function getFormDataCacheKeyJson(formData: FormData) {
-  // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
-  const cacheKey = {
-    type: 'FormData',
-    entries: Array.from(formData.entries()),
-  };
+// Request Cache-Control directives only affect how the cache is used,
+// not the response, so they are left out of the cache key.
+function removeRequestCacheControlDirectives(cacheControlValue: string) {
+  return cacheControlValue
+    .split(',')
+    .map(directive => directive.trim())
+    .filter(directive => !requestCacheControlDirectives.has(
+      directive.split('=')[0]!.trim().toLowerCase(),
+    ))
+    .join(', ');
+}
+
+export type CacheKeyOptions = {
+  // Only these request headers are part of the cache key.
+  includeHeaders?: string[];
+  // These request headers are not part of the cache key.
+  excludeHeaders?: string[];
+  // Query parameters that are removed from the URL.
+  ignoreQueryParams?: Array<string | RegExp>;
+  sortQueryParams?: boolean;
+  lowercaseHost?: boolean;
+  stripFragment?: boolean;
+  // Fetch options (such as 'redirect' or 'compress') that are not part of the cache key.
+  ignoreInitFields?: string[];
+  // How request bodies are normalized before they are hashed.
+  normalizeBody?: 'json' | 'graphql' | BodyNormalizer;
+  // 'hash' (the default) or 'readable' (namespace:host:path-hash:fingerprint).
+  keyFormat?: 'hash' | 'readable';
+  // The first part of readable cache keys. Defaults to 'nfc'.
+  namespace?: string;
+  // The hash function for cache keys. Defaults to 'md5'.
+  hashAlgorithm?: CacheKeyHashAlgorithm;
+};
+
+export type CacheKeyHashAlgorithm = 'md5' | 'sha256';
+
+// Length of the path hash in readable cache keys. It only groups the
+// cache keys of a path, so it doesn't need to be collision resistant.
+const pathHashLength = 16;
 
-  return cacheKey;
+function isHeaderIncluded(key: string, options: CacheKeyOptions) {
+  const matches = (names: string[]) => names.some(name => name.toLowerCase() === key);
+
+  return (!options.includeHeaders || matches(options.includeHeaders))
+    && !(options.excludeHeaders && matches(options.excludeHeaders));
 }
 
-function getHeadersCacheKeyJson(headers: string[][]): string[][] {
+function getHeadersCacheKeyJson(headers: string[][], options: CacheKeyOptions = {}): string[][] {
   return headers
     .map(([key, value]) => [key!.toLowerCase(), value!])
-    .filter(([key, value]) => key !== 'cache-control' || value !== 'only-if-cached');
+    .filter(([key]) => isHeaderIncluded(key!, options))
+    .map(([key, value]) => [key!, key === 'cache-control' ? removeRequestCacheControlDirectives(value!) : value!])
+    .filter(([key, value]) => key !== 'cache-control' || value!.trim() !== '');
+}
+
+function isQueryParamIgnored(name: string, options: CacheKeyOptions) {
+  return options.ignoreQueryParams?.some(pattern =>
+    typeof pattern === 'string' ? pattern === name : pattern.test(name),
+  ) ?? false;
+}
+
+function lowercaseHost(urlWithoutQuery: string) {
+  return urlWithoutQuery.replace(/^([a-z][\w+.-]*:\/\/)([^/]*)/i, (_match, scheme: string, authority: string) => {
+    const hostIndex = authority.lastIndexOf('@') + 1;
+    return scheme + authority.slice(0, hostIndex) + authority.slice(hostIndex).toLowerCase();
+  });
+}
+
+function getUrlCacheKeyJson(url: string, options: CacheKeyOptions = {}) {
+  const [, urlWithoutQuery = '', query = '', fragment = ''] = /^([^?#]*)(\?[^#]*)?(#.*)?$/s.exec(url) ?? [];
+  let normalizedQuery = query;
+
+  if (query && (options.ignoreQueryParams || options.sortQueryParams)) {
+    const parameters = [...new URLSearchParams(query)]
+      .filter(([name]) => !isQueryParamIgnored(name, options));
+
+    if (options.sortQueryParams) {
+      parameters.sort(([name1], [name2]) => name1 < name2 ? -1 : (name1 > name2 ? 1 : 0));
+    }
+
+    normalizedQuery = parameters.length > 0 ? `?${new URLSearchParams(parameters).toString()}` : '';
+  }
+
+  return (options.lowercaseHost ? lowercaseHost(urlWithoutQuery) : urlWithoutQuery)
+    + normalizedQuery
+    + (options.stripFragment ? '' : fragment);
+}
+
+function removeIgnoredFields(cacheKeyJson: Record<string, unknown>, options: CacheKeyOptions) {
+  for (const field of options.ignoreInitFields ?? []) {
+    delete cacheKeyJson[field]; // eslint-disable-line @typescript-eslint/no-dynamic-delete
+  }
+}
+
+// Blob and File objects may come from different implementations.
+type BlobLike = {
+  type: string;
+  arrayBuffer(): Promise<ArrayBuffer>;
+  [Symbol.toStringTag]: string;
+};
+
+function sha256(data: Buffer | string) {
+  return crypto.createHash('sha256').update(data).digest('hex');
 }
 
-function getBodyCacheKeyJson(body: unknown): string | object | undefined {
+function getBytesCacheKeyJson(bytes: Buffer) {
+  return { type: 'bytes', sha256: sha256(bytes) };
+}
+
+async function getBlobCacheKeyJson(blob: BlobLike) {
+  return {
+    type: 'Blob',
+    contentType: blob.type,
+    sha256: sha256(Buffer.from(await blob.arrayBuffer())),
+  };
+}
+
+async function getFileStreamCacheKeyJson(stream: fs.ReadStream) {
+  const hash = crypto.createHash('sha256');
+  const { start, end } = stream as fs.ReadStream & { start?: number; end?: number };
+
+  for await (const chunk of fs.createReadStream(stream.path, { start, end })) {
+    hash.update(chunk as Buffer);
+  }
+
+  return { type: 'bytes', sha256: hash.digest('hex') };
+}
+
+async function getFormDataCacheKeyJson(formData: FormData) {
+  const entries = await Promise.all(Array.from(formData.entries()).map(async ([name, value]) => [
+    name,
+    typeof value === 'string' ? value : { ...await getBlobCacheKeyJson(value), name: value.name },
+  ]));
+
+  return {
+    type: 'FormData',
+    entries,
+  };
+}
+
+// FormData bodies of Request objects have already been encoded as a multipart
+// Blob, with a random boundary that is left out of the cache key.
+function removeBoundary(value: string, boundary: string | null) {
+  return boundary ? value.split(boundary).join('') : value;
+}
+
+async function getMultipartBlobCacheKeyJson(blob: BlobLike, boundary: string) {
+  const content = Buffer.from(await blob.arrayBuffer()).toString('latin1');
+  return {
+    type: 'FormData',
+    sha256: sha256(removeBoundary(content, boundary)),
+  };
+}
+
+function isFormData(body: unknown): body is FormData {
+  return body instanceof FormData || (body as FormData | undefined)?.[Symbol.toStringTag] === 'FormData';
+}
+
+function isBlob(body: unknown): body is BlobLike {
+  return /^(Blob|File)$/.test((body as BlobLike | undefined)?.[Symbol.toStringTag] ?? '');
+}
+
+function isFileStream(body: unknown): body is fs.ReadStream {
+  return body instanceof fs.ReadStream && body.path !== undefined;
+}
+
+async function getBodyCacheKeyJson(body: unknown): Promise<string | object | undefined> {
   if (!body) {
     return undefined;
   }
@@ -38,37 +192,64 @@ function getBodyCacheKeyJson(body: unknown): string | object | undefined {
     return body;
   }
 
+  if (typeof body === 'number' || typeof body === 'boolean' || typeof body === 'bigint') {
+    return String(body);
+  }
+
   if (body instanceof URLSearchParams) {
     return body.toString();
   }
 
-  if (body instanceof fs.ReadStream) {
-    return body.path.toString();
+  if (isFileStream(body)) {
+    return getFileStreamCacheKeyJson(body);
   }
 
-  if (body instanceof FormData) {
+  if (body instanceof Stream) {
+    throw new TypeError('Stream bodies other than fs.ReadStream must be buffered before calculating a cache key. node-fetch-cache does this automatically for requests made through it.');
+  }
+
+  if (isFormData(body)) {
     return getFormDataCacheKeyJson(body);
   }
 
-  if (body instanceof Buffer) {
-    return body.toString();
+  if (isBlob(body)) {
+    return getBlobCacheKeyJson(body);
   }
 
-  throw new Error('Unsupported body type. Supported body types are: string, number, undefined, null, url.URLSearchParams, fs.ReadStream, FormData');
+  if (Buffer.isBuffer(body)) {
+    return getBytesCacheKeyJson(body);
+  }
+
+  if (types.isAnyArrayBuffer(body)) {
+    return getBytesCacheKeyJson(Buffer.from(body));
+  }
+
+  if (ArrayBuffer.isView(body)) {
+    return getBytesCacheKeyJson(Buffer.from(body.buffer, body.byteOffset, body.byteLength));
+  }
+
+  throw new Error('Unsupported body type. Supported body types are: string, number, undefined, null, url.URLSearchParams, Buffer, ArrayBuffer, typed arrays, DataView, Blob, FormData and streams');
 }
 
-async function getRequestCacheKeyJson(request: NodeFetchRequestType) {
+async function getRequestCacheKeyJson(request: NodeFetchRequestType, options: CacheKeyOptions = {}) {
   const { NodeFetchRequest } = await getNodeFetch();
   const bodyInternalsSymbol = Object.getOwnPropertySymbols(new NodeFetchRequest('http://url.com'))[0];
   assert(bodyInternalsSymbol, 'Failed to get node-fetch bodyInternalsSymbol');
 
+  const { body, boundary } = (request as any)[bodyInternalsSymbol!] as { body: unknown; boundary: string | null };
+  const headers = [...request.headers.entries()].map(([key, value]) => [key, removeBoundary(value, boundary)]);
+
   return {
-    headers: getHeadersCacheKeyJson([...request.headers.entries()]),
+    headers: getHeadersCacheKeyJson(headers, options),
     method: request.method,
     redirect: request.redirect,
     referrer: request.referrer,
-    url: request.url,
-    body: getBodyCacheKeyJson((request as any)[bodyInternalsSymbol!].body),
+    url: getUrlCacheKeyJson(request.url, options),
+    body: boundary && isBlob(body)
+      ? await getMultipartBlobCacheKeyJson(body, boundary)
+      : await getBodyCacheKeyJson(
+        await normalizeBody(body, request.headers.get('content-type') ?? undefined, options.normalizeBody),
+      ),
     // Confirmed that this property exists, but it's not in the types
     follow: (request as any).follow, // eslint-disable-line @typescript-eslint/no-unsafe-assignment
     // Confirmed that this property exists, but it's not in the types
@@ -77,22 +258,140 @@ async function getRequestCacheKeyJson(request: NodeFetchRequestType) {
   };
 }
 
-export async function calculateCacheKey(resource: FetchResource, init?: FetchInit) {
+function getReadableCacheKey(url: string, fingerprint: string, options: CacheKeyOptions) {
+  let host = '';
+  let path = url;
+
+  try {
+    ({ host, pathname: path } = new URL(url));
+  } catch {}
+
+  return [
+    options.namespace ?? 'nfc',
+    host,
+    hash(path, options.hashAlgorithm).slice(0, pathHashLength),
+    fingerprint,
+  ].join(':');
+}
+
+export type CacheKeyExplanation = {
+  resource: Record<string, unknown>;
+  init: Record<string, unknown>;
+  version: number;
+};
+
+const cacheKeyCalculatorOptions = new WeakMap<object, CacheKeyOptions>();
+const primaryCacheKeyCalculatorOptions = new WeakMap<object, CacheKeyOptions>();
+
+/**
+ * Returns the normalized request data that the cache key is a hash of, for
+ * debugging why two requests do or don't share a cache key.
+ */
+export async function explainCacheKey(
+  resource: FetchResource,
+  init?: FetchInit,
+  options: CacheKeyOptions = {},
+): Promise<CacheKeyExplanation> {
   const { NodeFetchRequest } = await getNodeFetch();
   const resourceCacheKeyJson = resource instanceof NodeFetchRequest
-    ? await getRequestCacheKeyJson(resource)
-    : { url: resource, body: undefined };
+    ? await getRequestCacheKeyJson(resource, options)
+    : { url: getUrlCacheKeyJson(String(resource), options), body: undefined };
 
   const initCacheKeyJson = {
-    body: undefined as (undefined | string | object),
     ...init,
-    headers: getHeadersCacheKeyJson(Object.entries(init?.headers ?? {})),
+    headers: getHeadersCacheKeyJson(await getHeaderEntries(init?.headers), options),
+    body: await getBodyCacheKeyJson(await normalizeBody(
+      init?.body,
+      await getRequestHeader(resource, init, 'content-type'),
+      options.normalizeBody,
+    )),
   };
 
-  resourceCacheKeyJson.body = getBodyCacheKeyJson(resourceCacheKeyJson.body);
-  initCacheKeyJson.body = getBodyCacheKeyJson(initCacheKeyJson.body);
-
   delete initCacheKeyJson.agent;
+  delete initCacheKeyJson.cache;
+
+  removeIgnoredFields(resourceCacheKeyJson, options);
+  removeIgnoredFields(initCacheKeyJson, options);
+
+  // Round trip through JSON so that the explanation has exactly what is hashed.
+  return JSON.parse(JSON.stringify({
+    resource: resourceCacheKeyJson,
+    init: initCacheKeyJson,
+    version: CACHE_VERSION,
+  })) as CacheKeyExplanation;
+}
+
+/**
+ * Creates a cache key function like `calculateCacheKey`, but which leaves the
+ * given headers, query parameters and fetch options out of the cache key and
+ * optionally normalizes the URL.
+ */
+export function createCacheKeyCalculator(options: CacheKeyOptions = {}) {
+  const calculator = async (resource: FetchResource, init?: FetchInit) => {
+    const { resource: resourceCacheKeyJson, init: initCacheKeyJson, version } = await explainCacheKey(
+      resource,
+      init,
+      options,
+    );
+
+    const fingerprint = hash(
+      JSON.stringify([resourceCacheKeyJson, initCacheKeyJson, version]),
+      options.hashAlgorithm,
+    );
+
+    return options.keyFormat === 'readable'
+      ? getReadableCacheKey(String(resourceCacheKeyJson['url']), fingerprint, options)
+      : fingerprint;
+  };
+
+  cacheKeyCalculatorOptions.set(calculator, options);
+  return calculator;
+}
 
-  return md5(JSON.stringify([resourceCacheKeyJson, initCacheKeyJson, CACHE_VERSION]));
+// Gets the options of a function created by createCacheKeyCalculator, so that
+// its cache keys can be explained.
+export function getCacheKeyCalculatorOptions(calculator: object) {
+  return cacheKeyCalculatorOptions.get(calculator);
 }
+
+// Gets the hash algorithm of a function created by createCacheKeyCalculator or
+// createPrimaryCacheKeyCalculator, so that variant keys can use it too.
+export function getCacheKeyHashAlgorithm(calculator: object) {
+  return (cacheKeyCalculatorOptions.get(calculator) ?? primaryCacheKeyCalculatorOptions.get(calculator))
+    ?.hashAlgorithm;
+}
+
+export const calculateCacheKey = createCacheKeyCalculator();
+
+/**
+ * Creates a function that calculates a cache key from only the method, URL
+ * and body of the request. This is the default cache key when Vary is
+ * respected, in which case the request headers listed in the response's Vary
+ * header select between variants stored under it. Of the cache key options,
+ * only keyFormat, namespace and hashAlgorithm apply.
+ */
+export function createPrimaryCacheKeyCalculator(options: Pick<CacheKeyOptions, 'keyFormat' | 'namespace' | 'hashAlgorithm'> = {}) {
+  const calculator = async (resource: FetchResource, init?: FetchInit) => {
+    const { NodeFetchRequest } = await getNodeFetch();
+    const requestCacheKeyJson = resource instanceof NodeFetchRequest
+      ? await getRequestCacheKeyJson(resource)
+      : undefined;
+
+    const primaryCacheKeyJson = {
+      method: (init?.method ?? requestCacheKeyJson?.method ?? 'GET').toUpperCase(),
+      url: requestCacheKeyJson?.url ?? resource,
+      body: await getBodyCacheKeyJson(init?.body) ?? requestCacheKeyJson?.body,
+    };
+
+    const fingerprint = hash(JSON.stringify([primaryCacheKeyJson, CACHE_VERSION]), options.hashAlgorithm);
+
+    return options.keyFormat === 'readable'
+      ? getReadableCacheKey(String(primaryCacheKeyJson.url), fingerprint, options)
+      : fingerprint;
+  };
+
+  primaryCacheKeyCalculatorOptions.set(calculator, options);
+  return calculator;
+}
+
+export const calculatePrimaryCacheKey = createPrimaryCacheKeyCalculator();
@@ -1,5 +1,38 @@
 import type { Response } from 'node-fetch';
-import type { CacheStrategy } from '../types.js';
+import type { CacheStrategy, CacheStrategyRequest } from '../types.js';
+import { parseCacheControl } from './cache_control.js';
+import { heuristicallyCacheableStatuses } from './freshness.js';
+
+const safeMethods = new Set(['GET', 'HEAD']);
 
 export const cacheOkayOnly: CacheStrategy = (response: Response) => response.ok;
 export const cacheNon5xxOnly: CacheStrategy = (response: Response) => response.status < 500;
+
+/**
+ * Only caches responses that a shared HTTP cache would be allowed to store
+ * (RFC 9111): responses with a status code that is cacheable by default, without
+ * Cache-Control no-store or private, and without Set-Cookie. Only responses
+ * to GET and HEAD are cached, and responses to POST if they have explicit
+ * freshness information and a Content-Location.
+ */
+export const cacheHttpCompliant: CacheStrategy = (response: Response, request: CacheStrategyRequest) => {
+  const directives = parseCacheControl(response.headers.get('cache-control') ?? undefined);
+
+  if (directives.has('no-store') || directives.has('private') || response.headers.has('set-cookie')) {
+    return false;
+  }
+
+  if (!heuristicallyCacheableStatuses.has(response.status)) {
+    return false;
+  }
+
+  const hasExplicitFreshness = directives.has('max-age')
+    || directives.has('s-maxage')
+    || response.headers.has('expires');
+
+  if (request.method === 'POST') {
+    return hasExplicitFreshness && response.headers.has('content-location');
+  }
+
+  return safeMethods.has(request.method);
+};
@@ -0,0 +1,154 @@
+import type { NFCResponseMetadata } from '../types.js';
+import {
+  type CacheControlDirectives,
+  getDirectiveSeconds,
+  getHeaderValue,
+  parseCacheControl,
+  parseSeconds,
+} from './cache_control.js';
+
+// Status codes that RFC 9110 defines as heuristically cacheable.
+export const heuristicallyCacheableStatuses = new Set([200, 203, 204, 206, 300, 301, 308, 404, 405, 410, 414, 501]);
+
+// Fraction of the time since Last-Modified that a response is considered
+// fresh for when it has no explicit freshness information (RFC 9111 4.2.2).
+const heuristicFreshnessFraction = 0.1;
+
+function parseDate(value: string | undefined) {
+  if (!value) {
+    return undefined;
+  }
+
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+function getResponseDate(metaData: NFCResponseMetadata, responseTime: number) {
+  return parseDate(getHeaderValue(metaData.headers, 'date')) ?? responseTime;
+}
+
+function calculateFreshnessLifetime(metaData: NFCResponseMetadata, responseTime: number) {
+  const directives = parseCacheControl(getHeaderValue(metaData.headers, 'cache-control'));
+
+  if (directives.has('no-store') || directives.has('no-cache')) {
+    return 0;
+  }
+
+  const maxAgeSeconds = getDirectiveSeconds(directives, 's-maxage')
+    ?? getDirectiveSeconds(directives, 'max-age');
+
+  if (maxAgeSeconds !== undefined) {
+    return maxAgeSeconds * 1000;
+  }
+
+  const date = getResponseDate(metaData, responseTime);
+  const expiresHeader = getHeaderValue(metaData.headers, 'expires');
+
+  if (expiresHeader !== undefined) {
+    // An invalid Expires value (for example "0") means "already expired".
+    const expires = parseDate(expiresHeader) ?? date;
+    return Math.max(0, expires - date);
+  }
+
+  const lastModified = parseDate(getHeaderValue(metaData.headers, 'last-modified'));
+
+  if (lastModified !== undefined && heuristicallyCacheableStatuses.has(metaData.status)) {
+    return Math.max(0, (date - lastModified) * heuristicFreshnessFraction);
+  }
+
+  return 0;
+}
+
+// Without a Date header, the age is counted from when the response was received.
+function calculateCurrentAge(metaData: NFCResponseMetadata, now: number) {
+  const ageSeconds = parseSeconds(getHeaderValue(metaData.headers, 'age')) ?? 0;
+  const responseDate = getResponseDate(metaData, metaData.responseTime ?? now);
+
+  return (ageSeconds * 1000) + Math.max(0, now - responseDate);
+}
+
+function calculateAge(metaData: NFCResponseMetadata, responseTime: number) {
+  const apparentAge = Math.max(0, responseTime - getResponseDate(metaData, responseTime));
+  const ageSeconds = parseSeconds(getHeaderValue(metaData.headers, 'age')) ?? 0;
+
+  return Math.max(apparentAge, ageSeconds * 1000);
+}
+
+/**
+ * Calculates the time (in ms since the epoch) at which a response stops
+ * being fresh, based on its Cache-Control, Expires, Date, Age and
+ * Last-Modified headers. Responses without any freshness information
+ * are considered stale as soon as they are received.
+ */
+export function calculateExpiration(
+  metaData: NFCResponseMetadata,
+  responseTime = metaData.responseTime ?? Date.now(),
+) {
+  return responseTime
+    + calculateFreshnessLifetime(metaData, responseTime)
+    - calculateAge(metaData, responseTime);
+}
+
+export function isFresh(metaData: NFCResponseMetadata, now = Date.now()) {
+  return metaData.expiration === undefined || metaData.expiration >= now;
+}
+
+/**
+ * Checks whether a stale response may still be used for the given purpose
+ * (for example 'stale-while-revalidate'), either because the configured
+ * window (in ms) or the response's own directive (in seconds) allows it.
+ */
+export function isWithinStaleWindow(
+  metaData: NFCResponseMetadata,
+  directiveName: string,
+  configuredWindow: number,
+  now = Date.now(),
+) {
+  if (metaData.expiration === undefined) {
+    return false;
+  }
+
+  const directives = parseCacheControl(getHeaderValue(metaData.headers, 'cache-control'));
+  if (directives.has('must-revalidate') || directives.has('no-cache')) {
+    return false;
+  }
+
+  const directiveWindow = (getDirectiveSeconds(directives, directiveName) ?? 0) * 1000;
+  const window = Math.max(configuredWindow, directiveWindow);
+
+  return window > 0 && now <= metaData.expiration + window;
+}
+
+/**
+ * Checks whether a cached response may be returned without contacting the
+ * server, given the Cache-Control directives of the request. With no
+ * directives, this is the case if the response is fresh.
+ */
+export function satisfiesRequestDirectives(
+  metaData: NFCResponseMetadata,
+  requestDirectives: CacheControlDirectives,
+  now = Date.now(),
+) {
+  if (requestDirectives.has('no-cache')) {
+    return false;
+  }
+
+  const maxAgeSeconds = getDirectiveSeconds(requestDirectives, 'max-age');
+  if (maxAgeSeconds !== undefined && calculateCurrentAge(metaData, now) > maxAgeSeconds * 1000) {
+    return false;
+  }
+
+  if (metaData.expiration === undefined) {
+    return true;
+  }
+
+  const responseDirectives = parseCacheControl(getHeaderValue(metaData.headers, 'cache-control'));
+  const minFresh = (getDirectiveSeconds(requestDirectives, 'min-fresh') ?? 0) * 1000;
+  const maxStale = requestDirectives.has('max-stale')
+    && !responseDirectives.has('must-revalidate')
+    && !responseDirectives.has('no-cache')
+    ? (getDirectiveSeconds(requestDirectives, 'max-stale') ?? Number.POSITIVE_INFINITY) * 1000
+    : 0;
+
+  return now <= metaData.expiration - minFresh + maxStale;
+}
@@ -1,39 +1,85 @@
 import { FetchInit, FetchResource } from '../types.js';
 import { getNodeFetch } from './node_fetch_imports.js';
+import { parseCacheControl } from './cache_control.js';
 
-function headerKeyIsCacheControl(key: string) {
-  return key.trim().toLowerCase() === 'cache-control';
+// Request Cache-Control directives that control how node-fetch-cache uses its cache.
+export const requestCacheControlDirectives = new Set([
+  'only-if-cached',
+  'no-cache',
+  'no-store',
+  'max-age',
+  'max-stale',
+  'min-fresh',
+]);
+
+/**
+ * Gets the headers of any HeadersInit (a Headers instance, an array of
+ * name/value pairs or a record) as lowercased name/value pairs, sorted by
+ * name, with the values of repeated headers combined.
+ */
+export async function getHeaderEntries(headersInit: NonNullable<FetchInit>['headers']) {
+  const { Headers } = await getNodeFetch();
+  return [...new Headers(headersInit).entries()];
 }
 
-function headerValueContainsOnlyIfCached(cacheControlValue: string | undefined) {
-  return cacheControlValue
-    ?.split?.(',')
-    .map(d => d.trim().toLowerCase())
-    .includes('only-if-cached');
+export async function getRequestCacheControl(resource: FetchResource, init: FetchInit) {
+  const { NodeFetchRequest, Headers } = await getNodeFetch();
+  const cacheControlValues = [
+    new Headers(init?.headers).get('Cache-Control'),
+    resource instanceof NodeFetchRequest ? resource.headers.get('Cache-Control') : null,
+  ].filter(Boolean);
+
+  return parseCacheControl(cacheControlValues.join(','));
 }
 
-function headerEntryIsCacheControlOnlyIfCached(pair: [string, string]) {
-  return headerKeyIsCacheControl(pair[0]) && headerValueContainsOnlyIfCached(pair[1]);
+export async function addRequestHeaders(
+  resource: FetchResource,
+  init: FetchInit,
+  additionalHeaders: Record<string, string>,
+): Promise<[FetchResource, FetchInit]> {
+  const { NodeFetchRequest, Headers } = await getNodeFetch();
+  const headers = new Headers(
+    init?.headers ?? (resource instanceof NodeFetchRequest ? resource.headers : undefined),
+  );
+
+  for (const [name, value] of Object.entries(additionalHeaders)) {
+    if (!headers.has(name)) {
+      headers.set(name, value);
+    }
+  }
+
+  return [resource, { ...init, headers }];
 }
 
-export async function hasOnlyIfCachedOption(resource: FetchResource, init: FetchInit) {
-  const initHeaderEntries = Object.entries(init?.headers ?? {});
-  const initHeaderEntriesContainsCacheControlOnlyIfCached = initHeaderEntries.some(
-    pair => headerEntryIsCacheControlOnlyIfCached(pair as [string, string]),
+export async function getRequestHeader(resource: FetchResource, init: FetchInit, name: string) {
+  const { NodeFetchRequest, Headers } = await getNodeFetch();
+  const headers = new Headers(
+    init?.headers ?? (resource instanceof NodeFetchRequest ? resource.headers : undefined),
   );
 
-  if (initHeaderEntriesContainsCacheControlOnlyIfCached) {
-    return true;
+  return headers.get(name) ?? undefined;
+}
+
+export async function removeRequestHeader(
+  resource: FetchResource,
+  init: FetchInit,
+  name: string,
+): Promise<[FetchResource, FetchInit]> {
+  const { NodeFetchRequest, Headers } = await getNodeFetch();
+
+  if (init?.headers) {
+    const headers = new Headers(init.headers);
+    headers.delete(name);
+
+    return [resource, { ...init, headers }];
   }
 
-  const { NodeFetchRequest } = await getNodeFetch();
+  if (resource instanceof NodeFetchRequest) {
+    const headers = new Headers(resource.headers);
+    headers.delete(name);
 
-  if (
-    resource instanceof NodeFetchRequest
-    && headerValueContainsOnlyIfCached(resource.headers.get('Cache-Control') ?? undefined)
-  ) {
-    return true;
+    return [new NodeFetchRequest(resource, { headers }), init];
   }
 
-  return false;
+  return [resource, init];
 }
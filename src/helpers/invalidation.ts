@@ -0,0 +1,110 @@
+import type { Response as NodeFetchResponse } from 'node-fetch';
+import type {
+  CacheStrategyRequest,
+  INodeFetchCacheCache,
+  InvalidationFilter,
+  NFCResponseMetadata,
+} from '../types.js';
+
+// Methods that do not change the state of the server (RFC 9110 9.2.1).
+const safeMethods = new Set(['GET', 'HEAD', 'OPTIONS', 'TRACE']);
+
+function resolveSameOriginUrl(value: string | null, baseUrl: URL) {
+  if (!value) {
+    return undefined;
+  }
+
+  try {
+    const url = new URL(value, baseUrl);
+    return url.origin === baseUrl.origin ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Gets the URLs whose cached responses a successful unsafe request has made
+ * obsolete (RFC 9111 4.4): the request URL, and the URLs in the Location and
+ * Content-Location headers of the response if they have the same origin.
+ */
+export function getInvalidatedUrls(request: CacheStrategyRequest, response: NodeFetchResponse) {
+  if (safeMethods.has(request.method) || response.status < 200 || response.status >= 400) {
+    return [];
+  }
+
+  const requestUrl = new URL(request.url);
+  const urls = new Set([requestUrl.href]);
+
+  for (const headerName of ['location', 'content-location']) {
+    const url = resolveSameOriginUrl(response.headers.get(headerName), requestUrl);
+    if (url) {
+      urls.add(url);
+    }
+  }
+
+  return [...urls];
+}
+
+export function getMetadataUrls(metaData: NFCResponseMetadata) {
+  return metaData.requestUrl === undefined ? [metaData.url] : [metaData.url, metaData.requestUrl];
+}
+
+/**
+ * Removes the cached responses whose request or response URL is one of the
+ * given URLs, through the cache's URL index if it has one.
+ */
+export async function invalidateUrls(cache: INodeFetchCacheCache, urls: string[]) {
+  if (urls.length === 0) {
+    return;
+  }
+
+  if (cache.invalidateUrls) {
+    await cache.invalidateUrls(urls);
+    return;
+  }
+
+  await cache.removeMatching?.(metaData => getMetadataUrls(metaData).some(url => urls.includes(url)));
+}
+
+function hasHost(url: string, host: string) {
+  try {
+    const { host: urlHost, hostname } = new URL(url);
+    return urlHost === host || hostname === host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Creates a predicate for removeMatching() that matches cached responses
+ * which satisfy all of the criteria in the filter.
+ */
+export function createInvalidationPredicate(filter: InvalidationFilter) {
+  const { url, urlPrefix, host, predicate } = filter;
+
+  if (url === undefined && urlPrefix === undefined && host === undefined && !predicate) {
+    throw new TypeError('An invalidation filter must have at least one of url, urlPrefix, host or predicate');
+  }
+
+  const normalizedUrl = url === undefined ? undefined : new URL(url).href;
+  const normalizedHost = host?.toLowerCase();
+
+  return (metaData: NFCResponseMetadata) => {
+    const urls = getMetadataUrls(metaData);
+
+    return (normalizedUrl === undefined || urls.includes(normalizedUrl))
+      && (urlPrefix === undefined || urls.some(metaDataUrl => metaDataUrl.startsWith(urlPrefix)))
+      && (normalizedHost === undefined || urls.some(metaDataUrl => hasHost(metaDataUrl, normalizedHost)))
+      && (!predicate || predicate(metaData));
+  };
+}
+
+export async function invalidate(cache: INodeFetchCacheCache, filter: InvalidationFilter) {
+  const matchesFilter = createInvalidationPredicate(filter);
+
+  if (!cache.removeMatching) {
+    throw new TypeError('The cache must implement removeMatching() to support invalidation');
+  }
+
+  await cache.removeMatching(matchesFilter);
+}
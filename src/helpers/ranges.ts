@@ -0,0 +1,170 @@
+import crypto from 'crypto';
+import { Buffer } from 'buffer';
+import { Readable } from 'stream';
+import type { NFCResponseMetadata } from '../types.js';
+import { getHeaderValue } from './cache_control.js';
+import { destroyBodyStream, sliceBodyStream, streamToBuffer } from './streams.js';
+
+type ByteRange = {
+  start: number;
+  end: number;
+};
+
+// Headers of the full response that don't apply to a partial response.
+const fullResponseOnlyHeaders = new Set(['content-length', 'content-range']);
+
+/**
+ * Parses a Range header (RFC 9110 14.2) into the byte ranges that it selects from
+ * a body of the given size. Returns undefined if the header is not a valid bytes
+ * range (in which case it should be ignored), or an empty array if none of the
+ * ranges can be satisfied.
+ */
+function parseRangeHeader(value: string, size: number): ByteRange[] | undefined {
+  const match = /^\s*bytes\s*=(.*)$/i.exec(value);
+  if (!match) {
+    return undefined;
+  }
+
+  const ranges: ByteRange[] = [];
+  const parts = match[1]!.split(',').filter(part => part.trim());
+
+  for (const part of parts) {
+    const rangeMatch = /^\s*(\d*)\s*-\s*(\d*)\s*$/.exec(part);
+    const [, first, last] = rangeMatch ?? [];
+
+    if (!first && !last) {
+      return undefined;
+    }
+
+    if (!first) {
+      const suffixLength = Number(last);
+      if (suffixLength > 0 && size > 0) {
+        ranges.push({ start: Math.max(0, size - suffixLength), end: size - 1 });
+      }
+
+      continue;
+    }
+
+    const start = Number(first);
+    const end = last ? Number(last) : Number.POSITIVE_INFINITY;
+
+    if (end < start) {
+      return undefined;
+    }
+
+    if (start < size) {
+      ranges.push({ start, end: Math.min(end, size - 1) });
+    }
+  }
+
+  return parts.length > 0 ? ranges : undefined;
+}
+
+// The cached body is identical to the body that was received, so if the response has a
+// Content-Length, that is its size, and it doesn't need to be read to find out.
+async function getBodyWithSize(bodyStream: NodeJS.ReadableStream, metaData: NFCResponseMetadata) {
+  const contentLength = getHeaderValue(metaData.headers, 'content-length');
+
+  if (contentLength && /^\d+$/.test(contentLength)) {
+    return { body: bodyStream, size: Number(contentLength) };
+  }
+
+  const body = await streamToBuffer(bodyStream);
+  return { body: Readable.from(body), size: body.length };
+}
+
+function getPartialResponseHeaders(metaData: NFCResponseMetadata) {
+  return Object.fromEntries(
+    Object.entries(metaData.headers).filter(([name]) => !fullResponseOnlyHeaders.has(name)),
+  );
+}
+
+function createMultipartBody(body: Buffer, ranges: ByteRange[], contentType: string | undefined, boundary: string) {
+  const parts = ranges.flatMap(({ start, end }) => [
+    Buffer.from([
+      `--${boundary}`,
+      ...(contentType ? [`Content-Type: ${contentType}`] : []),
+      `Content-Range: bytes ${start}-${end}/${body.length}`,
+      '',
+      '',
+    ].join('\r\n')),
+    body.subarray(start, end + 1),
+    Buffer.from('\r\n'),
+  ]);
+
+  return Buffer.concat([...parts, Buffer.from(`--${boundary}--\r\n`)]);
+}
+
+/**
+ * Creates the response to a Range request from the body and metadata of the
+ * full response: a 206 with the selected range (or a multipart/byteranges
+ * body if several ranges were requested), or a 416 if none of the ranges
+ * can be satisfied. Returns undefined if the Range header should be ignored.
+ * A single range is streamed from the body, but multiple ranges are read into
+ * memory.
+ */
+export async function createRangeResponse(
+  bodyStream: NodeJS.ReadableStream,
+  metaData: NFCResponseMetadata,
+  rangeHeader: string,
+) {
+  const { body, size } = await getBodyWithSize(bodyStream, metaData);
+  const ranges = parseRangeHeader(rangeHeader, size);
+
+  if (!ranges || ranges.length === 0) {
+    destroyBodyStream(body);
+  }
+
+  if (!ranges) {
+    return undefined;
+  }
+
+  const headers = getPartialResponseHeaders(metaData);
+
+  if (ranges.length === 0) {
+    return {
+      body: Readable.from(Buffer.alloc(0)),
+      metaData: {
+        ...metaData,
+        status: 416,
+        statusText: 'Range Not Satisfiable',
+        headers: {
+          ...headers,
+          'content-range': [`bytes */${size}`],
+          'content-length': ['0'],
+        },
+      },
+    };
+  }
+
+  let partialBody: NodeJS.ReadableStream;
+
+  if (ranges.length === 1) {
+    const [{ start, end }] = ranges as [ByteRange];
+    partialBody = sliceBodyStream(body, start, end);
+    headers['content-range'] = [`bytes ${start}-${end}/${size}`];
+    headers['content-length'] = [String(end - start + 1)];
+  } else {
+    const boundary = crypto.randomBytes(16).toString('hex');
+    const multipartBody = createMultipartBody(
+      await streamToBuffer(body),
+      ranges,
+      getHeaderValue(metaData.headers, 'content-type'),
+      boundary,
+    );
+
+    partialBody = Readable.from(multipartBody);
+    headers['content-type'] = [`multipart/byteranges; boundary=${boundary}`];
+    headers['content-length'] = [String(multipartBody.length)];
+  }
+
+  return {
+    body: partialBody,
+    metaData: {
+      ...metaData,
+      status: 206,
+      statusText: 'Partial Content',
+      headers,
+    },
+  };
+}
@@ -0,0 +1,121 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Buffer } from 'buffer';
+import { once } from 'events';
+import { Stream } from 'stream';
+import { finished } from 'stream/promises';
+import type { Request as NodeFetchRequestType } from 'node-fetch';
+import type { FetchInit } from '../types.js';
+import { getNodeFetch } from './node_fetch_imports.js';
+
+type ReplayableRequest = {
+  resource: string | NodeFetchRequestType;
+  init: FetchInit;
+  cleanup(): Promise<void>;
+};
+
+// Bodies that are fs.ReadStreams are hashed by reading their file again, so
+// only other streams need to be read ahead of the request.
+function isUnreplayableStream(body: unknown): body is NodeJS.ReadableStream {
+  return body instanceof Stream && !(body instanceof fs.ReadStream && body.path !== undefined);
+}
+
+async function spoolStream(stream: NodeJS.ReadableStream, spoolThreshold: number) {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let spoolDirectory: string | undefined;
+  let spoolFile: fs.WriteStream | undefined;
+  let spoolFileError: Error | undefined;
+  const onSpoolFileError = (error: Error) => {
+    spoolFileError = error;
+  };
+
+  try {
+    for await (const chunk of stream) {
+      const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+
+      if (!spoolFile && size + buffer.length > spoolThreshold) {
+        spoolDirectory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'node-fetch-cache-'));
+        spoolFile = fs.createWriteStream(path.join(spoolDirectory, 'body'));
+        spoolFile.on('error', onSpoolFileError);
+
+        for (const bufferedChunk of chunks.splice(0)) {
+          spoolFile.write(bufferedChunk);
+        }
+      }
+
+      size += buffer.length;
+
+      if (spoolFileError) {
+        throw spoolFileError;
+      }
+
+      if (spoolFile) {
+        if (!spoolFile.write(buffer)) {
+          await once(spoolFile, 'drain');
+        }
+      } else {
+        chunks.push(buffer);
+      }
+    }
+
+    if (!spoolFile) {
+      return { body: Buffer.concat(chunks), spoolDirectory };
+    }
+
+    spoolFile.end();
+    await finished(spoolFile);
+  } catch (error: unknown) {
+    spoolFile?.destroy();
+
+    if (spoolDirectory) {
+      await fs.promises.rm(spoolDirectory, { recursive: true, force: true });
+    }
+
+    throw error;
+  }
+
+  return { body: fs.createReadStream(spoolFile.path), spoolDirectory };
+}
+
+/**
+ * Reads stream bodies (other than fs.ReadStreams) into memory, or into a
+ * temporary file if they are larger than the spool threshold, so that their
+ * content can be hashed into the cache key and then sent with the request.
+ */
+export async function makeRequestBodyReplayable(
+  resource: string | NodeFetchRequestType,
+  init: FetchInit,
+  spoolThreshold: number,
+): Promise<ReplayableRequest> {
+  const { NodeFetchRequest } = await getNodeFetch();
+  const bodyInternalsSymbol = Object.getOwnPropertySymbols(new NodeFetchRequest('http://url.com'))[0]!;
+
+  const requestBody: unknown = resource instanceof NodeFetchRequest && !init?.body
+    ? (resource as any)[bodyInternalsSymbol].body
+    : undefined;
+
+  if (!isUnreplayableStream(init?.body) && !isUnreplayableStream(requestBody)) {
+    return { resource, init, cleanup: async () => undefined };
+  }
+
+  const { body, spoolDirectory } = await spoolStream(
+    (init?.body ?? requestBody) as NodeJS.ReadableStream,
+    spoolThreshold,
+  );
+
+  const cleanup = async () => {
+    if (body instanceof fs.ReadStream && body.readableFlowing === null) {
+      body.destroy();
+    }
+
+    if (spoolDirectory) {
+      await fs.promises.rm(spoolDirectory, { recursive: true, force: true });
+    }
+  };
+
+  return init?.body
+    ? { resource, init: { ...init, body }, cleanup }
+    : { resource: new NodeFetchRequest(resource, { body }), init, cleanup };
+}
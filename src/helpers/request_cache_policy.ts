@@ -0,0 +1,67 @@
+import type { FetchInit, FetchResource, NFCResponseMetadata, RequestCacheMode } from '../types.js';
+import type { CacheControlDirectives } from './cache_control.js';
+import { getRequestCacheControl } from './headers.js';
+import { satisfiesRequestDirectives } from './freshness.js';
+
+const requestCacheModes = new Set<RequestCacheMode>([
+  'default',
+  'no-store',
+  'reload',
+  'no-cache',
+  'force-cache',
+  'only-if-cached',
+]);
+
+export type RequestCachePolicy = {
+  mode: RequestCacheMode;
+  directives: CacheControlDirectives;
+};
+
+export const defaultRequestCachePolicy: RequestCachePolicy = {
+  mode: 'default',
+  directives: new Map(),
+};
+
+/**
+ * Combines the WHATWG `init.cache` mode and the request's Cache-Control
+ * directives into a single description of how the cache should be used.
+ * The no-store, no-cache and only-if-cached modes are expressed as the
+ * equivalent directives.
+ */
+export async function getRequestCachePolicy(
+  resource: FetchResource,
+  init: FetchInit,
+): Promise<RequestCachePolicy> {
+  const mode = init?.cache ?? 'default';
+
+  if (!requestCacheModes.has(mode)) {
+    throw new TypeError(
+      `Invalid cache mode '${String(mode)}'. Supported cache modes are: ${[...requestCacheModes].join(', ')}`,
+    );
+  }
+
+  const directives = await getRequestCacheControl(resource, init);
+
+  if (mode === 'no-store' || mode === 'no-cache' || mode === 'only-if-cached') {
+    directives.set(mode, undefined);
+  }
+
+  return { mode, directives };
+}
+
+export function canServeFromCache(metaData: NFCResponseMetadata, policy: RequestCachePolicy) {
+  // These modes use any cached response, no matter how stale it is.
+  if (policy.mode === 'force-cache' || policy.mode === 'only-if-cached') {
+    return true;
+  }
+
+  return satisfiesRequestDirectives(metaData, policy.directives);
+}
+
+// Whether the request asks for a response that is validated or fresh enough,
+// in which case stale responses must not be served while revalidating.
+export function requiresValidation(policy: RequestCachePolicy) {
+  return policy.directives.has('no-cache')
+    || policy.directives.has('max-age')
+    || policy.directives.has('min-fresh');
+}
@@ -0,0 +1,15 @@
+import type { CacheStrategyRequest, FetchInit, FetchResource } from '../types.js';
+import { getNodeFetch } from './node_fetch_imports.js';
+
+export async function getRequestDetails(
+  resource: FetchResource,
+  init: FetchInit,
+): Promise<CacheStrategyRequest> {
+  const { NodeFetchRequest } = await getNodeFetch();
+  const request = resource instanceof NodeFetchRequest ? resource : undefined;
+
+  return {
+    method: (init?.method ?? request?.method ?? 'GET').toUpperCase(),
+    url: new URL(request?.url ?? String(resource)).href,
+  };
+}
@@ -0,0 +1,47 @@
+import type { NFCResponseMetadata } from '../types.js';
+import { getHeaderValue } from './cache_control.js';
+
+// Headers from a 304 response that describe the (empty) 304 body
+// rather than the stored representation, and so must not be copied over.
+const nonUpdatableHeaders = new Set([
+  'content-length',
+  'content-encoding',
+  'content-range',
+  'transfer-encoding',
+]);
+
+export function getConditionalRequestHeaders(metaData: NFCResponseMetadata) {
+  const conditionalHeaders: Record<string, string> = {};
+  const etag = getHeaderValue(metaData.headers, 'etag');
+  const lastModified = getHeaderValue(metaData.headers, 'last-modified');
+
+  if (etag) {
+    conditionalHeaders['If-None-Match'] = etag;
+  }
+
+  if (lastModified) {
+    conditionalHeaders['If-Modified-Since'] = lastModified;
+  }
+
+  return Object.keys(conditionalHeaders).length > 0 ? conditionalHeaders : undefined;
+}
+
+export function mergeNotModifiedMetadata(
+  cachedMetaData: NFCResponseMetadata,
+  notModifiedMetaData: NFCResponseMetadata,
+): NFCResponseMetadata {
+  const headers = { ...cachedMetaData.headers };
+
+  for (const [name, values] of Object.entries(notModifiedMetaData.headers)) {
+    if (!nonUpdatableHeaders.has(name)) {
+      headers[name] = values;
+    }
+  }
+
+  return {
+    ...cachedMetaData,
+    headers,
+    expiration: undefined,
+    responseTime: notModifiedMetaData.responseTime,
+  };
+}
@@ -0,0 +1,162 @@
+import { Buffer } from 'buffer';
+import { PassThrough, Readable, Transform } from 'stream';
+
+/* Drains a body stream that we have decided not to read (for example a stale
+ * cached body that is being replaced by a fresh response) so that any file
+ * handles or other resources behind it are released. */
+export function discardBodyStream(stream: NodeJS.ReadableStream) {
+  stream.on('error', () => undefined);
+  stream.resume();
+}
+
+/* Releases a body stream that won't be read at all, without reading it if it
+ * can be destroyed. */
+export function destroyBodyStream(stream: NodeJS.ReadableStream) {
+  const destroyableStream = stream as NodeJS.ReadableStream & { destroy?: () => void };
+
+  if (destroyableStream.destroy) {
+    destroyableStream.destroy();
+  } else {
+    discardBodyStream(stream);
+  }
+}
+
+/* Streams the bytes from start to end (inclusive) of a body stream, and
+ * releases the body stream as soon as they have been read. */
+export function sliceBodyStream(bodyStream: NodeJS.ReadableStream, start: number, end: number) {
+  let position = 0;
+  let done = false;
+
+  const slice = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      const chunkStart = position;
+      position += chunk.length;
+
+      if (done) {
+        callback();
+        return;
+      }
+
+      if (position > start) {
+        this.push(chunk.subarray(Math.max(0, start - chunkStart), end + 1 - chunkStart));
+      }
+
+      if (position > end) {
+        done = true;
+        bodyStream.unpipe(slice);
+        this.push(null);
+        destroyBodyStream(bodyStream);
+      }
+
+      callback();
+    },
+  });
+
+  bodyStream.on('error', error => {
+    if (!done) {
+      slice.destroy(error as Error);
+    }
+  });
+
+  bodyStream.pipe(slice);
+  return slice;
+}
+
+/* Creates a stream that only opens the stream that it reads from once it is
+ * read itself, so that nothing is opened if it is destroyed without being read. */
+export function createLazyStream(open: () => Promise<NodeJS.ReadableStream>) {
+  let source: NodeJS.ReadableStream | undefined;
+  let opening = false;
+
+  return new Readable({
+    read() {
+      if (source) {
+        source.resume();
+        return;
+      }
+
+      if (opening) {
+        return;
+      }
+
+      opening = true;
+      open().then(stream => {
+        source = stream;
+
+        if (this.destroyed) {
+          destroyBodyStream(stream);
+          return;
+        }
+
+        stream.on('data', chunk => {
+          if (!this.push(chunk)) {
+            stream.pause();
+          }
+        });
+        stream.on('end', () => this.push(null));
+        stream.on('error', (error: Error) => this.destroy(error));
+      }, (error: unknown) => {
+        this.destroy(error as Error);
+      });
+    },
+    destroy(error, callback) {
+      if (source) {
+        destroyBodyStream(source);
+      }
+
+      callback(error);
+    },
+  });
+}
+
+export async function streamToBuffer(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  return new Promise((resolve, reject) => {
+    stream.on('data', chunk =>
+      chunks.push(chunk as Buffer),
+    ).on('error', error => {
+      reject(error);
+    }).on('end', () => {
+      resolve(Buffer.concat(chunks));
+    });
+  });
+}
+
+/* Splits a response body into a stream for the caller and a stream to write
+ * to the cache, so that the caller can read the body while it is cached. Both
+ * are read at the pace of the slower one. If the body fails, or the caller's
+ * stream is destroyed before its end, the cache's stream fails too, so that a
+ * partial body is never cached. If the cache's stream fails, the caller's
+ * stream carries on without it. If the caller's stream is neither read nor
+ * destroyed, the body stalls, and so does the cache's stream. */
+export function teeBodyStream(bodyStream: NodeJS.ReadableStream) {
+  const callerStream = new PassThrough();
+  const cacheStream = new PassThrough();
+
+  bodyStream.pipe(callerStream);
+  bodyStream.pipe(cacheStream);
+
+  bodyStream.on('error', (error: Error) => {
+    callerStream.destroy(error);
+    cacheStream.destroy(error);
+  });
+
+  // The caller may not read the body before it fails, so the error must not be unhandled.
+  callerStream.on('error', () => undefined);
+
+  callerStream.on('close', () => {
+    if (!callerStream.readableEnded) {
+      cacheStream.destroy(new Error('The response body was not read to the end'));
+
+      if (bodyStream instanceof Readable) {
+        bodyStream.destroy();
+      }
+    }
+  });
+
+  cacheStream.on('close', () => {
+    bodyStream.unpipe(cacheStream);
+  });
+
+  return { callerStream, cacheStream };
+}
@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import { Buffer } from 'buffer';
+import { Readable } from 'stream';
+import type {
+  FetchInit,
+  FetchResource,
+  INodeFetchCacheCache,
+  NFCResponseMetadata,
+} from '../types.js';
+import { getHeaderValue } from './cache_control.js';
+import type { CacheKeyHashAlgorithm } from './cache_keys.js';
+import { getNodeFetch } from './node_fetch_imports.js';
+import { discardBodyStream, streamToBuffer } from './streams.js';
+
+/* When Vary is respected, responses that have a Vary header are stored under a
+ * secondary key derived from the primary cache key and the values of the request
+ * headers that the response varies on. An index entry stored alongside the primary
+ * key remembers which headers those are, so that the secondary key of a later
+ * request can be calculated before the response is known. Its body lists the hashes
+ * of the variants, so that they can be removed when the response stops varying on
+ * those headers. Since variants are just regular cache entries, this works with any
+ * cache. */
+
+function getVaryIndexKey(primaryCacheKey: string) {
+  return `${primaryCacheKey}:vary`;
+}
+
+export function getVaryHeaderNames(metaData: NFCResponseMetadata) {
+  return (getHeaderValue(metaData.headers, 'vary') ?? '')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function getVariantCacheKey(primaryCacheKey: string, hash: string) {
+  return `${primaryCacheKey}:${hash}`;
+}
+
+// Index entries written before variant hashes were recorded have an empty body.
+function parseVariantHashes(body: Buffer) {
+  try {
+    const hashes: unknown = JSON.parse(body.toString());
+    return Array.isArray(hashes) ? hashes.filter((hash): hash is string => typeof hash === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+async function getVariantHash(
+  varyHeaderNames: string[],
+  resource: FetchResource,
+  init: FetchInit,
+  hashAlgorithm: CacheKeyHashAlgorithm,
+) {
+  const { NodeFetchRequest, Headers } = await getNodeFetch();
+  const requestHeaders = new Headers(
+    init?.headers ?? (resource instanceof NodeFetchRequest ? resource.headers : undefined),
+  );
+
+  const selectedHeaders = [...varyHeaderNames]
+    .sort()
+    .map(name => [name, requestHeaders.get(name)]);
+
+  return crypto.createHash(hashAlgorithm).update(JSON.stringify(selectedHeaders)).digest('hex');
+}
+
+async function removeVariants(cache: INodeFetchCacheCache, primaryCacheKey: string, hashes: string[]) {
+  await Promise.all(hashes.map(async hash => cache.remove(getVariantCacheKey(primaryCacheKey, hash))));
+}
+
+export async function findVariantCacheKey(
+  cache: INodeFetchCacheCache,
+  primaryCacheKey: string,
+  resource: FetchResource,
+  init: FetchInit,
+  hashAlgorithm: CacheKeyHashAlgorithm = 'md5',
+) {
+  const varyIndex = await cache.get(getVaryIndexKey(primaryCacheKey), { ignoreExpiration: true });
+  if (!varyIndex) {
+    return primaryCacheKey;
+  }
+
+  discardBodyStream(varyIndex.bodyStream);
+  const hash = await getVariantHash(getVaryHeaderNames(varyIndex.metaData), resource, init, hashAlgorithm);
+  return getVariantCacheKey(primaryCacheKey, hash);
+}
+
+/**
+ * Records which request headers select between variants of the given response,
+ * and returns the key that the response should be stored under, or undefined
+ * if it varies on something other than request headers (Vary: *) and so
+ * cannot be stored at all. Variants that can no longer be found, because the
+ * response stopped varying on the same headers, are removed.
+ */
+export async function updateVaryIndex(
+  cache: INodeFetchCacheCache,
+  primaryCacheKey: string,
+  metaData: NFCResponseMetadata,
+  resource: FetchResource,
+  init: FetchInit,
+  hashAlgorithm: CacheKeyHashAlgorithm = 'md5',
+) {
+  const varyHeaderNames = getVaryHeaderNames(metaData);
+
+  if (varyHeaderNames.includes('*')) {
+    return undefined;
+  }
+
+  const varyIndexKey = getVaryIndexKey(primaryCacheKey);
+  const varyIndex = await cache.get(varyIndexKey, { ignoreExpiration: true });
+  let variantHashes = varyIndex ? parseVariantHashes(await streamToBuffer(varyIndex.bodyStream)) : [];
+
+  if (varyHeaderNames.length === 0) {
+    await removeVariants(cache, primaryCacheKey, variantHashes);
+    await cache.remove(varyIndexKey);
+    return primaryCacheKey;
+  }
+
+  const indexedHeaderNames = varyIndex ? getVaryHeaderNames(varyIndex.metaData) : [];
+  if (indexedHeaderNames.sort().join() !== [...varyHeaderNames].sort().join()) {
+    await removeVariants(cache, primaryCacheKey, variantHashes);
+    variantHashes = [];
+  }
+
+  const hash = await getVariantHash(varyHeaderNames, resource, init, hashAlgorithm);
+  if (!variantHashes.includes(hash)) {
+    variantHashes.push(hash);
+  }
+
+  const indexBody = Buffer.from(JSON.stringify(variantHashes));
+  const indexResult = await cache.set(
+    varyIndexKey,
+    Readable.from(indexBody),
+    {
+      ...metaData,
+      headers: { vary: varyHeaderNames },
+      size: indexBody.length,
+      expiration: undefined,
+    },
+  );
+
+  discardBodyStream(indexResult.bodyStream);
+  return getVariantCacheKey(primaryCacheKey, hash);
+}
@@ -1,29 +1,88 @@
-import type { Request as NodeFetchRequestType } from 'node-fetch';
+import type { Request as NodeFetchRequestType, Response as NodeFetchResponseType } from 'node-fetch';
 import assert from 'assert';
+import { Buffer } from 'buffer';
+import { Readable } from 'stream';
 import { FormData } from 'formdata-node';
 import { getNFCResponseClass as getNFCResponseClass } from './classes/response.js';
 import { MemoryCache } from './classes/caching/memory_cache.js';
-import { calculateCacheKey } from './helpers/cache_keys.js';
-import { cacheNon5xxOnly, cacheOkayOnly } from './helpers/cache_strategies.js';
-import { hasOnlyIfCachedOption } from './helpers/headers.js';
+import {
+  calculateCacheKey,
+  calculatePrimaryCacheKey,
+  createCacheKeyCalculator,
+  createPrimaryCacheKeyCalculator,
+  explainCacheKey,
+  getCacheKeyCalculatorOptions,
+  getCacheKeyHashAlgorithm,
+  type CacheKeyExplanation,
+  type CacheKeyOptions,
+} from './helpers/cache_keys.js';
+import { diffCacheKeys, type CacheKeyDifference } from './helpers/cache_key_diff.js';
+import type { BodyNormalizer } from './helpers/body_normalization.js';
+import { cacheHttpCompliant, cacheNon5xxOnly, cacheOkayOnly } from './helpers/cache_strategies.js';
+import { addRequestHeaders, getRequestHeader, removeRequestHeader } from './helpers/headers.js';
+import { calculateExpiration, isFresh, isWithinStaleWindow } from './helpers/freshness.js';
+import {
+  type RequestCachePolicy,
+  canServeFromCache,
+  defaultRequestCachePolicy,
+  getRequestCachePolicy,
+  requiresValidation,
+} from './helpers/request_cache_policy.js';
+import { getConditionalRequestHeaders, mergeNotModifiedMetadata } from './helpers/revalidation.js';
+import {
+  destroyBodyStream,
+  discardBodyStream,
+  teeBodyStream,
+} from './helpers/streams.js';
+import { createRangeResponse } from './helpers/ranges.js';
+import { makeRequestBodyReplayable } from './helpers/request_body.js';
+import { getHeaderValue } from './helpers/cache_control.js';
+import { findVariantCacheKey, updateVaryIndex } from './helpers/vary.js';
+import { getRequestDetails } from './helpers/request_details.js';
+import {
+  createInvalidationPredicate,
+  getInvalidatedUrls,
+  invalidate,
+  invalidateUrls,
+} from './helpers/invalidation.js';
 import { shimResponseToSnipeBody } from './helpers/shim_response_to_snipe_body.js';
 import { LockoSynchronizationStrategy } from './classes/locko_synchronization_strategy.js';
 import type {
   CacheStrategy,
+  CacheStrategyRequest,
+  CacheTags,
   FetchInit,
   FetchResource,
   INodeFetchCacheCache,
+  InvalidationFilter,
   ISynchronizationStrategy,
+  NFCResponseMetadata,
+  RequestCacheMode,
 } from './types.js';
 import { getNodeFetch } from './helpers/node_fetch_imports.js';
 
 type CacheKeyCalculator = typeof calculateCacheKey;
 
+type CacheMiss = {
+  cacheKey: string;
+  explanation: CacheKeyExplanation | undefined;
+};
+
 type NFCCustomizations = {
   cache: INodeFetchCacheCache;
   synchronizationStrategy: ISynchronizationStrategy;
   calculateCacheKey: CacheKeyCalculator;
   shouldCacheResponse: CacheStrategy;
+  respectCacheHeaders: boolean;
+  staleWhileRevalidate: number;
+  staleIfError: number;
+  staleIfErrorStatuses: number[];
+  respectVary: boolean;
+  requestBodySpoolThreshold: number;
+  debugCacheMisses: boolean | ((cacheMiss: CacheMiss) => void);
+  tags: CacheTags;
+  writeThrough: boolean;
+  invalidateAfterUnsafeRequests: boolean;
 };
 
 type NFCOptions = Partial<NFCCustomizations>;
@@ -38,88 +97,609 @@ async function getUrlFromRequestArguments(resource: NodeFetchRequestType | strin
   return resource;
 }
 
-async function getResponse(
+async function findCacheKey(
+  fetchCustomization: NFCCustomizations,
+  primaryCacheKey: string,
+  resource: FetchResource,
+  init: FetchInit,
+) {
+  return fetchCustomization.respectVary
+    ? findVariantCacheKey(
+      fetchCustomization.cache,
+      primaryCacheKey,
+      resource,
+      init,
+      getCacheKeyHashAlgorithm(fetchCustomization.calculateCacheKey),
+    )
+    : primaryCacheKey;
+}
+
+async function getCacheTags(
+  tags: CacheTags,
+  response: NodeFetchResponseType,
+  request: CacheStrategyRequest,
+) {
+  return typeof tags === 'function' ? tags(response, request) : tags;
+}
+
+async function invalidateAfterUnsafeRequest(
+  fetchCustomization: NFCCustomizations,
+  request: CacheStrategyRequest,
+  response: NodeFetchResponseType,
+) {
+  if (fetchCustomization.invalidateAfterUnsafeRequests) {
+    await invalidateUrls(fetchCustomization.cache, getInvalidatedUrls(request, response));
+  }
+}
+
+async function writeToCacheInBackground(
+  cache: INodeFetchCacheCache,
+  cacheKey: string,
+  bodyStream: NodeJS.ReadableStream,
+  metaData: NFCResponseMetadata,
+) {
+  try {
+    const cacheSetResult = await cache.set(cacheKey, bodyStream, metaData);
+    destroyBodyStream(cacheSetResult.bodyStream);
+  } catch {
+    // The caller has the response already, so there is nobody to report the
+    // error to, and the response just isn't cached.
+  }
+}
+
+async function getCachedValue(
+  fetchCustomization: NFCCustomizations,
+  cacheKey: string,
+  requestCachePolicy: RequestCachePolicy,
+  requestMethod: string,
+) {
+  if (requestCachePolicy.mode === 'reload') {
+    return undefined;
+  }
+
+  const cachedValue = await fetchCustomization.cache.get(cacheKey, { ignoreExpiration: true });
+
+  // A response to a HEAD request has no body, so it can't be used for any other method.
+  if (cachedValue?.metaData.requestMethod === 'HEAD' && requestMethod !== 'HEAD') {
+    discardBodyStream(cachedValue.bodyStream);
+    return undefined;
+  }
+
+  return cachedValue;
+}
+
+async function getServableCachedValue(
   fetchCustomization: NFCCustomizations,
   resource: FetchResource,
   init: FetchInit,
+  requestCachePolicy: RequestCachePolicy,
+  requestMethod: string,
 ) {
-  const { NodeFetchRequest, fetch } = await getNodeFetch();
+  const primaryCacheKey = await fetchCustomization.calculateCacheKey(resource, init);
+  const cacheKey = await findCacheKey(fetchCustomization, primaryCacheKey, resource, init);
+  const cachedValue = await getCachedValue(fetchCustomization, cacheKey, requestCachePolicy, requestMethod);
+
+  if (!cachedValue) {
+    return undefined;
+  }
+
+  if (!canServeFromCache(cachedValue.metaData, requestCachePolicy)) {
+    discardBodyStream(cachedValue.bodyStream);
+    return undefined;
+  }
+
+  return { ...cachedValue, cacheKey };
+}
+
+async function getCachedGetResponseForHead(
+  fetchCustomization: NFCCustomizations,
+  resource: FetchResource,
+  init: FetchInit,
+  requestCachePolicy: RequestCachePolicy,
+) {
+  const { NodeFetchRequest } = await getNodeFetch();
   const NFCResponse = await getNFCResponseClass();
 
-  if (typeof resource !== 'string' && !(resource instanceof NodeFetchRequest)) {
-    throw new TypeError(
-      'The first argument to fetch must be either a string or a node-fetch Request instance',
-    );
+  const { method, ...getInit } = init ?? {};
+  const getResource = resource instanceof NodeFetchRequest
+    ? new NodeFetchRequest(resource, { method: 'GET' })
+    : resource;
+
+  const cachedValue = await getServableCachedValue(
+    fetchCustomization,
+    getResource,
+    getInit,
+    requestCachePolicy,
+    'GET',
+  );
+
+  if (!cachedValue) {
+    return undefined;
+  }
+
+  discardBodyStream(cachedValue.bodyStream);
+
+  return new NFCResponse(
+    Readable.from(Buffer.alloc(0)),
+    cachedValue.metaData,
+    async () => fetchCustomization.cache.remove(cachedValue.cacheKey),
+    true,
+    false,
+    !isFresh(cachedValue.metaData),
+  );
+}
+
+async function getCachedRangeResponse(
+  fetchCustomization: NFCCustomizations,
+  resource: FetchResource,
+  init: FetchInit,
+  requestCachePolicy: RequestCachePolicy,
+  rangeHeader: string,
+) {
+  const NFCResponse = await getNFCResponseClass();
+  const [fullResource, fullInit] = await removeRequestHeader(resource, init, 'range');
+
+  const cachedValue = await getServableCachedValue(
+    fetchCustomization,
+    fullResource,
+    fullInit,
+    requestCachePolicy,
+    'GET',
+  );
+
+  if (!cachedValue) {
+    return undefined;
+  }
+
+  // Ranges refer to the encoded body, but the cached body has been decoded.
+  const contentEncoding = getHeaderValue(cachedValue.metaData.headers, 'content-encoding');
+  if (cachedValue.metaData.status !== 200 || (contentEncoding && contentEncoding !== 'identity')) {
+    discardBodyStream(cachedValue.bodyStream);
+    return undefined;
+  }
+
+  const rangeResponse = await createRangeResponse(
+    cachedValue.bodyStream,
+    cachedValue.metaData,
+    rangeHeader,
+  );
+
+  if (!rangeResponse) {
+    return undefined;
   }
 
-  const cacheKey = await fetchCustomization.calculateCacheKey(resource, init);
+  return new NFCResponse(
+    rangeResponse.body,
+    rangeResponse.metaData,
+    async () => fetchCustomization.cache.remove(cachedValue.cacheKey),
+    true,
+    false,
+    !isFresh(cachedValue.metaData),
+  );
+}
+
+async function reportCacheMiss(
+  fetchCustomization: NFCCustomizations,
+  cacheKey: string,
+  resource: FetchResource,
+  init: FetchInit,
+) {
+  const cacheKeyOptions = getCacheKeyCalculatorOptions(fetchCustomization.calculateCacheKey);
+  const cacheMiss: CacheMiss = {
+    cacheKey,
+    // Cache keys can only be explained if they come from a built-in cache key function.
+    explanation: cacheKeyOptions && await explainCacheKey(resource, init, cacheKeyOptions),
+  };
+
+  if (typeof fetchCustomization.debugCacheMisses === 'function') {
+    fetchCustomization.debugCacheMisses(cacheMiss);
+  } else {
+    console.debug('node-fetch-cache cache miss', JSON.stringify(cacheMiss, undefined, 2));
+  }
+}
+
+type CachedValue = NonNullable<Awaited<ReturnType<typeof getCachedValue>>>;
+
+/* Makes the request, conditional on the validators of the cached response if
+ * there is one. Returns undefined if the request failed, or the response has
+ * one of the staleIfErrorStatuses, and the cached response may be served in
+ * its place (stale-if-error). */
+async function fetchUnlessStaleIfError(
+  fetchCustomization: NFCCustomizations,
+  resource: FetchResource,
+  init: FetchInit,
+  cachedValue: CachedValue | undefined,
+) {
+  const { fetch } = await getNodeFetch();
+  const conditionalHeaders = cachedValue && getConditionalRequestHeaders(cachedValue.metaData);
+  const canServeStale = cachedValue !== undefined && isWithinStaleWindow(
+    cachedValue.metaData,
+    'stale-if-error',
+    fetchCustomization.staleIfError,
+  );
+
+  let fetchResponse: NodeFetchResponseType;
+  try {
+    fetchResponse = conditionalHeaders
+      ? await fetch(...await addRequestHeaders(resource, init, conditionalHeaders))
+      : await fetch(resource, init);
+  } catch (error: unknown) {
+    if (canServeStale) {
+      return undefined;
+    }
+
+    if (cachedValue) {
+      discardBodyStream(cachedValue.bodyStream);
+    }
+
+    throw error;
+  }
+
+  if (canServeStale && fetchCustomization.staleIfErrorStatuses.includes(fetchResponse.status)) {
+    discardBodyStream(fetchResponse.body!);
+    return undefined;
+  }
+
+  return fetchResponse;
+}
+
+async function refreshNotModifiedResponse(
+  fetchCustomization: NFCCustomizations,
+  cacheKey: string,
+  cachedValue: CachedValue,
+  notModifiedMeta: NFCResponseMetadata,
+) {
+  const NFCResponse = await getNFCResponseClass();
+  const refreshedMeta = mergeNotModifiedMetadata(cachedValue.metaData, notModifiedMeta);
+
+  if (fetchCustomization.respectCacheHeaders) {
+    refreshedMeta.expiration = calculateExpiration(refreshedMeta);
+  }
+
+  const cacheSetResult = await fetchCustomization.cache.set(
+    cacheKey,
+    cachedValue.bodyStream,
+    refreshedMeta,
+  );
+
+  return new NFCResponse(
+    cacheSetResult.bodyStream,
+    cacheSetResult.metaData,
+    async () => fetchCustomization.cache.remove(cacheKey),
+    true,
+  );
+}
+
+/* Writes the response to the cache and returns the body stream to give to the
+ * caller. With writeThrough, that is returned right away, while the body is
+ * written to the cache as the caller reads it. The lock on the cache key is
+ * not held until then, since the caller may be waiting for another request
+ * for the same key before reading the body. */
+async function writeToCache(
+  fetchCustomization: NFCCustomizations,
+  cacheKey: string,
+  bodyStream: NodeJS.ReadableStream,
+  metaData: NFCResponseMetadata,
+) {
+  if (fetchCustomization.writeThrough) {
+    const { callerStream, cacheStream } = teeBodyStream(bodyStream);
+    void writeToCacheInBackground(fetchCustomization.cache, cacheKey, cacheStream, metaData);
+    return callerStream;
+  }
+
+  const cacheSetResult = await fetchCustomization.cache.set(cacheKey, bodyStream, metaData);
+  return cacheSetResult.bodyStream;
+}
+
+async function fetchAndCache(
+  fetchCustomization: NFCCustomizations,
+  primaryCacheKey: string,
+  resource: FetchResource,
+  init: FetchInit,
+  requestCachePolicy: RequestCachePolicy,
+) {
+  const NFCResponse = await getNFCResponseClass();
+  const requestDetails = await getRequestDetails(resource, init);
+  const cacheKey = await findCacheKey(fetchCustomization, primaryCacheKey, resource, init);
   const ejectSelfFromCache = async () => fetchCustomization.cache.remove(cacheKey);
+  const cachedValue = await getCachedValue(
+    fetchCustomization,
+    cacheKey,
+    requestCachePolicy,
+    requestDetails.method,
+  );
 
-  const cachedValue = await fetchCustomization.cache.get(cacheKey);
-  if (cachedValue) {
+  if (cachedValue && canServeFromCache(cachedValue.metaData, requestCachePolicy)) {
     return new NFCResponse(
       cachedValue.bodyStream,
       cachedValue.metaData,
       ejectSelfFromCache,
       true,
+      false,
+      !isFresh(cachedValue.metaData),
     );
   }
 
-  if (await hasOnlyIfCachedOption(resource, init)) {
-    return NFCResponse.cacheMissResponse(
-      await getUrlFromRequestArguments(resource),
+  if (!cachedValue && fetchCustomization.debugCacheMisses) {
+    await reportCacheMiss(fetchCustomization, cacheKey, resource, init);
+  }
+
+  const fetchResponse = await fetchUnlessStaleIfError(fetchCustomization, resource, init, cachedValue);
+
+  if (!fetchResponse) {
+    assert(cachedValue, 'No cached response to serve after the request failed');
+    return new NFCResponse(
+      cachedValue.bodyStream,
+      cachedValue.metaData,
+      ejectSelfFromCache,
+      true,
+      false,
+      true,
+      true,
     );
   }
 
-  return fetchCustomization.synchronizationStrategy.doWithExclusiveLock(cacheKey, async () => {
-    const cachedValue = await fetchCustomization.cache.get(cacheKey);
-    if (cachedValue) {
-      return new NFCResponse(
-        cachedValue.bodyStream,
-        cachedValue.metaData,
-        ejectSelfFromCache,
-        true,
+  await invalidateAfterUnsafeRequest(fetchCustomization, requestDetails, fetchResponse);
+
+  const serializedMeta = {
+    ...NFCResponse.serializeMetaFromNodeFetchResponse(fetchResponse),
+    requestUrl: requestDetails.url,
+    requestMethod: requestDetails.method,
+    responseTime: Date.now(),
+  };
+
+  if (cachedValue && fetchResponse.status === 304 && getConditionalRequestHeaders(cachedValue.metaData)) {
+    return refreshNotModifiedResponse(fetchCustomization, cacheKey, cachedValue, serializedMeta);
+  }
+
+  if (cachedValue) {
+    discardBodyStream(cachedValue.bodyStream);
+  }
+
+  if (fetchCustomization.respectCacheHeaders) {
+    serializedMeta.expiration = calculateExpiration(serializedMeta);
+  }
+
+  let bodyStream = fetchResponse.body;
+  assert(bodyStream, 'No body stream found in fetch response');
+
+  shimResponseToSnipeBody(fetchResponse, stream => {
+    bodyStream = stream;
+  });
+
+  const shouldCache = await fetchCustomization.shouldCacheResponse(fetchResponse, requestDetails);
+  const tags = shouldCache ? await getCacheTags(fetchCustomization.tags, fetchResponse, requestDetails) : [];
+  if (tags.length > 0) {
+    serializedMeta.tags = tags;
+  }
+
+  const responseCacheKey = shouldCache && fetchCustomization.respectVary
+    ? await updateVaryIndex(
+      fetchCustomization.cache,
+      primaryCacheKey,
+      serializedMeta,
+      resource,
+      init,
+      getCacheKeyHashAlgorithm(fetchCustomization.calculateCacheKey),
+    )
+    : cacheKey;
+
+  if (shouldCache && responseCacheKey) {
+    bodyStream = await writeToCache(fetchCustomization, responseCacheKey, bodyStream, serializedMeta);
+  }
+
+  return new NFCResponse(
+    bodyStream,
+    serializedMeta,
+    async () => fetchCustomization.cache.remove(responseCacheKey ?? cacheKey),
+    false,
+  );
+}
+
+async function refreshInBackground(
+  fetchCustomization: NFCCustomizations,
+  primaryCacheKey: string,
+  resource: FetchResource,
+  init: FetchInit,
+) {
+  // Concurrent refreshes queue up behind the lock, and all but the first
+  // find a fresh entry in the cache and return without making a request.
+  return fetchCustomization.synchronizationStrategy.doWithExclusiveLock(primaryCacheKey, async () => {
+    const response = await fetchAndCache(
+      fetchCustomization,
+      primaryCacheKey,
+      resource,
+      init,
+      defaultRequestCachePolicy,
+    );
+    if (response.body) {
+      discardBodyStream(response.body);
+    }
+  }).catch(() => {
+    // The stale response has already been served. If the refresh
+    // fails, the next request will simply try again.
+  });
+}
+
+async function getResponse(
+  fetchCustomization: NFCCustomizations,
+  resource: FetchResource,
+  init: FetchInit,
+) {
+  const { NodeFetchRequest } = await getNodeFetch();
+
+  if (typeof resource !== 'string' && !(resource instanceof NodeFetchRequest)) {
+    throw new TypeError(
+      'The first argument to fetch must be either a string or a node-fetch Request instance',
+    );
+  }
+
+  const replayableRequest = await makeRequestBodyReplayable(
+    resource,
+    init,
+    fetchCustomization.requestBodySpoolThreshold,
+  );
+
+  let backgroundRefresh: Promise<void> | undefined;
+
+  try {
+    return await getCachedOrFetchedResponse(
+      fetchCustomization,
+      replayableRequest.resource,
+      replayableRequest.init,
+      refresh => {
+        backgroundRefresh = refresh;
+      },
+    );
+  } finally {
+    // A background refresh sends the request body again, so it is
+    // only cleaned up once the refresh is done.
+    if (backgroundRefresh) {
+      void backgroundRefresh.then(replayableRequest.cleanup).catch(() => undefined);
+    } else {
+      await replayableRequest.cleanup();
+    }
+  }
+}
+
+async function getCachedOrFetchedResponse(
+  fetchCustomization: NFCCustomizations,
+  resource: string | NodeFetchRequestType,
+  init: FetchInit,
+  onBackgroundRefresh: (refresh: Promise<void>) => void,
+) {
+  const { fetch } = await getNodeFetch();
+  const NFCResponse = await getNFCResponseClass();
+
+  const primaryCacheKey = await fetchCustomization.calculateCacheKey(resource, init);
+  const cacheKey = await findCacheKey(fetchCustomization, primaryCacheKey, resource, init);
+  const ejectSelfFromCache = async () => fetchCustomization.cache.remove(cacheKey);
+  const requestDetails = await getRequestDetails(resource, init);
+  const requestCachePolicy = await getRequestCachePolicy(resource, init);
+  const { directives: requestDirectives } = requestCachePolicy;
+
+  if (requestDirectives.has('no-store')) {
+    if (requestDirectives.has('only-if-cached')) {
+      return NFCResponse.cacheMissResponse(
+        await getUrlFromRequestArguments(resource),
       );
     }
 
     const fetchResponse = await fetch(resource, init);
-    const serializedMeta = NFCResponse.serializeMetaFromNodeFetchResponse(fetchResponse);
-    let bodyStream = fetchResponse.body;
-    assert(bodyStream, 'No body stream found in fetch response');
+    assert(fetchResponse.body, 'No body stream found in fetch response');
 
-    shimResponseToSnipeBody(fetchResponse, stream => {
-      bodyStream = stream;
-    });
+    await invalidateAfterUnsafeRequest(fetchCustomization, requestDetails, fetchResponse);
 
-    const shouldCache = await fetchCustomization.shouldCacheResponse(fetchResponse);
+    return new NFCResponse(
+      fetchResponse.body,
+      NFCResponse.serializeMetaFromNodeFetchResponse(fetchResponse),
+      ejectSelfFromCache,
+      false,
+    );
+  }
 
-    if (shouldCache) {
-      const cacheSetResult = await fetchCustomization.cache.set(
-        cacheKey,
-        bodyStream,
-        serializedMeta,
-      );
+  if (requestDetails.method === 'HEAD') {
+    const cachedGetResponse = await getCachedGetResponseForHead(
+      fetchCustomization,
+      resource,
+      init,
+      requestCachePolicy,
+    );
+
+    if (cachedGetResponse) {
+      return cachedGetResponse;
+    }
+  }
+
+  const rangeHeader = await getRequestHeader(resource, init, 'range');
+  const ifRangeHeader = await getRequestHeader(resource, init, 'if-range');
+
+  if (requestDetails.method === 'GET' && rangeHeader && !ifRangeHeader) {
+    const cachedRangeResponse = await getCachedRangeResponse(
+      fetchCustomization,
+      resource,
+      init,
+      requestCachePolicy,
+      rangeHeader,
+    );
 
-      bodyStream = cacheSetResult.bodyStream;
+    if (cachedRangeResponse) {
+      return cachedRangeResponse;
     }
+  }
+
+  const cachedValue = await getCachedValue(
+    fetchCustomization,
+    cacheKey,
+    requestCachePolicy,
+    requestDetails.method,
+  );
 
+  if (cachedValue && canServeFromCache(cachedValue.metaData, requestCachePolicy)) {
     return new NFCResponse(
-      bodyStream,
-      serializedMeta,
+      cachedValue.bodyStream,
+      cachedValue.metaData,
       ejectSelfFromCache,
+      true,
       false,
+      !isFresh(cachedValue.metaData),
     );
-  });
+  }
+
+  if (cachedValue && !requiresValidation(requestCachePolicy) && isWithinStaleWindow(
+    cachedValue.metaData,
+    'stale-while-revalidate',
+    fetchCustomization.staleWhileRevalidate,
+  )) {
+    onBackgroundRefresh(refreshInBackground(fetchCustomization, primaryCacheKey, resource, init));
+
+    return new NFCResponse(
+      cachedValue.bodyStream,
+      cachedValue.metaData,
+      ejectSelfFromCache,
+      true,
+      false,
+      true,
+    );
+  }
+
+  if (cachedValue) {
+    discardBodyStream(cachedValue.bodyStream);
+  }
+
+  if (requestDirectives.has('only-if-cached')) {
+    return NFCResponse.cacheMissResponse(
+      await getUrlFromRequestArguments(resource),
+    );
+  }
+
+  return fetchCustomization.synchronizationStrategy.doWithExclusiveLock(
+    primaryCacheKey,
+    async () => fetchAndCache(fetchCustomization, primaryCacheKey, resource, init, requestCachePolicy),
+  );
 }
 
-const globalMemoryCache = new MemoryCache();
+// The default cache is shared by all instances, so it is limited to keep
+// long-running processes from growing without bound.
+const globalMemoryCache = new MemoryCache({ maxEntries: 1000, maxBytes: 100 * 1024 * 1024 });
 
 function create(creationOptions: NFCOptions) {
   const fetchOptions: NFCCustomizations = {
     cache: creationOptions.cache ?? globalMemoryCache,
     synchronizationStrategy: creationOptions.synchronizationStrategy ?? new LockoSynchronizationStrategy(),
     shouldCacheResponse: creationOptions.shouldCacheResponse ?? (() => true),
-    calculateCacheKey: creationOptions.calculateCacheKey ?? calculateCacheKey,
+    calculateCacheKey: creationOptions.calculateCacheKey
+      ?? (creationOptions.respectVary ? calculatePrimaryCacheKey : calculateCacheKey),
+    respectCacheHeaders: creationOptions.respectCacheHeaders ?? false,
+    staleWhileRevalidate: creationOptions.staleWhileRevalidate ?? 0,
+    staleIfError: creationOptions.staleIfError ?? 0,
+    staleIfErrorStatuses: creationOptions.staleIfErrorStatuses ?? [500, 502, 503, 504],
+    respectVary: creationOptions.respectVary ?? false,
+    requestBodySpoolThreshold: creationOptions.requestBodySpoolThreshold ?? 1_048_576,
+    debugCacheMisses: creationOptions.debugCacheMisses ?? false,
+    tags: creationOptions.tags ?? [],
+    writeThrough: creationOptions.writeThrough ?? false,
+    invalidateAfterUnsafeRequests: creationOptions.invalidateAfterUnsafeRequests ?? true,
   };
 
   const fetchCache = async (
@@ -134,6 +714,7 @@ function create(creationOptions: NFCOptions) {
 
   fetchCache.create = create;
   fetchCache.options = fetchOptions;
+  fetchCache.invalidate = async (filter: InvalidationFilter) => invalidate(fetchOptions.cache, filter);
 
   return fetchCache;
 }
@@ -142,11 +723,13 @@ const defaultFetch = create({});
 const cacheStrategies = {
   cacheOkayOnly,
   cacheNon5xxOnly,
+  cacheHttpCompliant,
 };
 
 export default defaultFetch;
 export { MemoryCache } from './classes/caching/memory_cache.js';
 export { FileSystemCache } from './classes/caching/file_system_cache.js';
+export { SqliteCache } from './classes/caching/sqlite_cache.js';
 export { CACHE_VERSION } from './helpers/cache_keys.js';
 export { getNodeFetch };
 export type { NFCResponse } from './classes/response.js';
@@ -156,12 +739,28 @@ export {
   cacheStrategies,
   calculateCacheKey as getCacheKey,
   calculateCacheKey,
+  calculatePrimaryCacheKey,
+  createCacheKeyCalculator,
+  createPrimaryCacheKeyCalculator,
+  explainCacheKey,
+  diffCacheKeys,
+  createInvalidationPredicate,
   FormData,
   type NodeFetchRequestType as NodeFetchRequest,
   type NFCOptions,
   type CacheKeyCalculator,
+  type CacheKeyOptions,
+  type BodyNormalizer,
+  type CacheKeyExplanation,
+  type CacheKeyDifference,
+  type CacheMiss,
   type INodeFetchCacheCache,
   type FetchResource,
   type FetchInit,
+  type RequestCacheMode,
   type ISynchronizationStrategy,
+  type CacheStrategy,
+  type CacheStrategyRequest,
+  type CacheTags,
+  type InvalidationFilter,
 };
@@ -3,8 +3,20 @@ import type fetch from 'node-fetch';
 import { FormData } from 'formdata-node';
 
 export type FetchResource = Parameters<typeof fetch>[0];
-export type FetchInit = Parameters<typeof fetch>[1];
-export type CacheStrategy = (response: NodeFetchResponse) => Promise<boolean> | boolean;
+export type RequestCacheMode = 'default' | 'no-store' | 'reload' | 'no-cache' | 'force-cache' | 'only-if-cached';
+export type FetchInit = (NonNullable<Parameters<typeof fetch>[1]> & { cache?: RequestCacheMode }) | undefined;
+export type CacheStrategyRequest = {
+  method: string;
+  url: string;
+};
+export type CacheStrategy = (
+  response: NodeFetchResponse,
+  request: CacheStrategyRequest,
+) => Promise<boolean> | boolean;
+export type CacheTags = string[] | ((
+  response: NodeFetchResponse,
+  request: CacheStrategyRequest,
+) => Promise<string[]> | string[]);
 
 export { FormData };
 
@@ -15,10 +27,18 @@ export type NFCResponseMetadata = {
   headers: Record<string, string[]>;
   size: number;
   counter: number;
+  // Time (in ms since the epoch) after which the response is no longer fresh.
+  expiration?: number | undefined;
+  // Time (in ms since the epoch) at which the response was received.
+  responseTime?: number | undefined;
+  // URL of the request, which differs from the response URL after redirects.
+  requestUrl?: string | undefined;
+  requestMethod?: string | undefined;
+  tags?: string[] | undefined;
 };
 
 export type INodeFetchCacheCache = {
-  get(key: string): Promise<{
+  get(key: string, options?: { ignoreExpiration?: boolean }): Promise<{
     bodyStream: NodeJS.ReadableStream;
     metaData: NFCResponseMetadata;
   } | undefined>;
@@ -31,6 +51,19 @@ export type INodeFetchCacheCache = {
     metaData: NFCResponseMetadata;
   }>;
   remove(key: string): Promise<void | unknown>;
+  removeMatching?(predicate: (metaData: NFCResponseMetadata) => boolean): Promise<void | unknown>;
+  invalidateTags?(tags: string[]): Promise<void | unknown>;
+  invalidateUrls?(urls: string[]): Promise<void | unknown>;
+};
+
+export type InvalidationFilter = {
+  // Matches responses whose request or response URL is this URL.
+  url?: string;
+  // Matches responses whose request or response URL starts with this string.
+  urlPrefix?: string;
+  // Matches responses whose request or response URL has this host (with or without the port).
+  host?: string;
+  predicate?: (metaData: NFCResponseMetadata) => boolean;
 };
 
 export type ISynchronizationStrategy = {
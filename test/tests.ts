@@ -4,19 +4,33 @@ import path, { dirname } from 'path';
 import util from 'util';
 import { fileURLToPath } from 'url';
 import fs from 'fs';
+import os from 'os';
 import assert from 'assert';
+import { spawn } from 'child_process';
+import { once } from 'events';
 import { Agent } from 'http';
+import { Readable } from 'stream';
+import { Blob, Buffer, File } from 'buffer';
 import { rimraf } from 'rimraf';
 import { FormData } from 'formdata-node';
-import standardFetch, { Request as StandardFetchRequest } from 'node-fetch';
+import standardFetch, { Headers as StandardFetchHeaders, Request as StandardFetchRequest } from 'node-fetch';
 import FetchCache, {
   MemoryCache,
   FileSystemCache,
+  SqliteCache,
   cacheStrategies,
   FetchResource,
   NFCResponse,
   calculateCacheKey,
+  calculatePrimaryCacheKey,
+  createCacheKeyCalculator,
+  createPrimaryCacheKeyCalculator,
+  explainCacheKey,
+  diffCacheKeys,
+  CACHE_VERSION,
+  CacheMiss,
   ISynchronizationStrategy,
+  NFCResponseMetadata,
 } from '../src/index.js';
 
 const httpBinBaseUrl = 'http://localhost:3000';
@@ -62,6 +76,23 @@ const JSON_BODY_EXPECTED = `{
 let defaultCachedFetch: typeof FetchCache;
 let defaultCache: MemoryCache;
 
+const sqliteAvailable = await import('node:sqlite' as string).then(() => true, () => false);
+const openedSqliteCaches: SqliteCache[] = [];
+
+// The built-in caches that tests of features every cache supports run with.
+const cacheFactories: Array<[string, () => MemoryCache | FileSystemCache | SqliteCache]> = [
+  ['memory', () => new MemoryCache()],
+  ['file system', () => new FileSystemCache()],
+];
+
+if (sqliteAvailable) {
+  cacheFactories.push(['SQLite', () => {
+    const cache = new SqliteCache({ databasePath: path.join(CACHE_PATH, 'cache.sqlite') });
+    openedSqliteCaches.push(cache);
+    return cache;
+  }]);
+}
+
 function post(body: string | URLSearchParams | FormData | fs.ReadStream) {
   return { method: 'POST', body };
 }
@@ -93,12 +124,26 @@ async function dualFetch(...args: Parameters<typeof standardFetch>) {
   return { cachedFetchResponse, standardFetchResponse };
 }
 
+async function countEntries(cache: MemoryCache | FileSystemCache) {
+  let count = 0;
+  await cache.removeMatching(() => {
+    count += 1;
+    return false;
+  });
+
+  return count;
+}
+
 beforeEach(async () => {
   rimraf.sync(CACHE_PATH);
   defaultCache = new MemoryCache();
   defaultCachedFetch = FetchCache.create({ cache: defaultCache });
 });
 
+afterEach(async () => {
+  await Promise.all(openedSqliteCaches.splice(0).map(async cache => cache.close()));
+});
+
 let response: NFCResponse;
 
 describe('Basic property tests', () => {
@@ -351,6 +396,97 @@ describe('Cache tests', () => {
     assert.strictEqual(response.returnedFromCache, true);
   });
 
+  it('Gives binary bodies cache keys based on their content', async () => {
+    const getKey = async (body: NonNullable<NonNullable<Parameters<typeof calculateCacheKey>[1]>['body']>) =>
+      calculateCacheKey(TWO_HUNDRED_URL, { method: 'POST', body });
+
+    assert.notStrictEqual(await getKey(Buffer.from([0xFF])), await getKey(Buffer.from([0xFE])));
+    assert.strictEqual(await getKey(Buffer.from([0xFF])), await getKey(new Uint8Array([0xFF])));
+    assert.strictEqual(await getKey(Buffer.from([0xFF])), await getKey(new Uint8Array([0xFF]).buffer));
+    assert.strictEqual(await getKey(Buffer.from([0xFF])), await getKey(new DataView(new Uint8Array([0xFF]).buffer)));
+    assert.strictEqual(await getKey(new Blob(['a'])), await getKey(new Blob(['a'])));
+    assert.notStrictEqual(await getKey(new Blob(['a'])), await getKey(new Blob(['b'])));
+    assert.notStrictEqual(await getKey(new Blob(['a'])), await getKey(new Blob(['a'], { type: 'text/plain' })));
+  });
+
+  it('Gives form data with different file contents different cache keys', async () => {
+    const createFormData = (content: string) => {
+      const formData = new FormData();
+      formData.append('file', new File([content], 'file.txt'));
+      return formData;
+    };
+
+    assert.notStrictEqual(
+      await calculateCacheKey(TWO_HUNDRED_URL, post(createFormData('a'))),
+      await calculateCacheKey(TWO_HUNDRED_URL, post(createFormData('b'))),
+    );
+
+    assert.strictEqual(
+      await calculateCacheKey(TWO_HUNDRED_URL, post(createFormData('a'))),
+      await calculateCacheKey(TWO_HUNDRED_URL, post(createFormData('a'))),
+    );
+
+    assert.strictEqual(
+      await calculateCacheKey(new StandardFetchRequest(TWO_HUNDRED_URL, post(createFormData('a')))),
+      await calculateCacheKey(new StandardFetchRequest(TWO_HUNDRED_URL, post(createFormData('a')))),
+    );
+
+    assert.notStrictEqual(
+      await calculateCacheKey(new StandardFetchRequest(TWO_HUNDRED_URL, post(createFormData('a')))),
+      await calculateCacheKey(new StandardFetchRequest(TWO_HUNDRED_URL, post(createFormData('b')))),
+    );
+  });
+
+  it('Gives read streams of different files with the same content the same cache key', async () => {
+    const copyPath = path.join(CACHE_PATH, 'copy.png');
+    fs.mkdirSync(CACHE_PATH, { recursive: true });
+    fs.copyFileSync(path.join(__dirname, 'expected_png.png'), copyPath);
+
+    response = await defaultCachedFetch(TWO_HUNDRED_URL, post(fs.createReadStream(path.join(__dirname, 'expected_png.png'))));
+    assert.strictEqual(response.returnedFromCache, false);
+
+    response = await defaultCachedFetch(TWO_HUNDRED_URL, post(fs.createReadStream(copyPath)));
+    assert.strictEqual(response.returnedFromCache, true);
+  });
+
+  for (const [description, requestBodySpoolThreshold] of [['in memory', undefined], ['on disk', 4]] as const) {
+    it(`Buffers stream bodies ${description} and sends them with the request`, async () => {
+      defaultCachedFetch = FetchCache.create({ cache: defaultCache, requestBodySpoolThreshold });
+      const postUrl = `${httpBinBaseUrl}/post`;
+
+      response = await defaultCachedFetch(postUrl, { method: 'POST', body: Readable.from([Buffer.from('hello '), Buffer.from('world')]) });
+      assert.strictEqual(response.returnedFromCache, false);
+      assert.strictEqual((await response.json() as { data: string }).data, 'hello world');
+
+      response = await defaultCachedFetch(postUrl, { method: 'POST', body: Readable.from([Buffer.from('hello world')]) });
+      assert.strictEqual(response.returnedFromCache, true);
+
+      response = await defaultCachedFetch(new StandardFetchRequest(postUrl, { method: 'POST', body: Readable.from([Buffer.from('goodbye')]) }));
+      assert.strictEqual(response.returnedFromCache, false);
+      assert.strictEqual((await response.json() as { data: string }).data, 'goodbye');
+
+      const spoolDirectories = fs.readdirSync(os.tmpdir()).filter(name => name.startsWith('node-fetch-cache-'));
+      assert.deepStrictEqual(spoolDirectories, []);
+    });
+  }
+
+  it('Removes the spooled body if the stream body fails', async () => {
+    defaultCachedFetch = FetchCache.create({ cache: defaultCache, requestBodySpoolThreshold: 4 });
+
+    async function * failingBody() {
+      yield Buffer.from('hello world');
+      throw new Error('Body failed');
+    }
+
+    await assert.rejects(
+      defaultCachedFetch(`${httpBinBaseUrl}/post`, { method: 'POST', body: Readable.from(failingBody()) }),
+      { message: 'Body failed' },
+    );
+
+    const spoolDirectories = fs.readdirSync(os.tmpdir()).filter(name => name.startsWith('node-fetch-cache-'));
+    assert.deepStrictEqual(spoolDirectories, []);
+  });
+
   it('Does not error with custom agent with circular properties', async () => {
     const agent = new Agent();
     (agent as any).agent = agent;
@@ -487,7 +623,7 @@ describe('Data tests', () => {
 
   it('Errors if the body type is not supported', async () => {
     await assert.rejects(
-      async () => defaultCachedFetch(TEXT_BODY_URL, { body: 1 as unknown as string }),
+      async () => defaultCachedFetch(TEXT_BODY_URL, { body: {} as unknown as string }),
       /Unsupported body type/,
     );
   });
@@ -563,6 +699,86 @@ describe('Memory cache tests', () => {
     response = await defaultCachedFetch(TWO_HUNDRED_URL);
     assert.strictEqual(response.returnedFromCache, false);
   });
+
+  async function isCached(url: string) {
+    const cacheResponse = await defaultCachedFetch(url, { cache: 'only-if-cached' });
+    await cacheResponse.arrayBuffer();
+    return cacheResponse.returnedFromCache;
+  }
+
+  it('Evicts the least recently used entries beyond maxEntries', async () => {
+    defaultCachedFetch = FetchCache.create({ cache: new MemoryCache({ maxEntries: 2 }) });
+
+    await (await defaultCachedFetch(TWO_HUNDRED_URL)).text();
+    await (await defaultCachedFetch(TEXT_BODY_URL)).text();
+    await (await defaultCachedFetch(TWO_HUNDRED_URL)).text();
+    await (await defaultCachedFetch(JSON_BODY_URL)).text();
+
+    assert.strictEqual(await isCached(TEXT_BODY_URL), false);
+    assert.strictEqual(await isCached(TWO_HUNDRED_URL), true);
+    assert.strictEqual(await isCached(JSON_BODY_URL), true);
+  });
+
+  it('Evicts the least recently used entries beyond maxBytes', async () => {
+    defaultCachedFetch = FetchCache.create({ cache: new MemoryCache({ maxBytes: 50 }) });
+
+    await (await defaultCachedFetch(`${httpBinBaseUrl}/bytes/20`)).arrayBuffer();
+    await (await defaultCachedFetch(`${httpBinBaseUrl}/bytes/25`)).arrayBuffer();
+    await (await defaultCachedFetch(`${httpBinBaseUrl}/bytes/10`)).arrayBuffer();
+
+    assert.strictEqual(await isCached(`${httpBinBaseUrl}/bytes/20`), false);
+    assert.strictEqual(await isCached(`${httpBinBaseUrl}/bytes/25`), true);
+    assert.strictEqual(await isCached(`${httpBinBaseUrl}/bytes/10`), true);
+  });
+
+  it('Does not cache bodies larger than maxBodySize', async () => {
+    defaultCachedFetch = FetchCache.create({ cache: new MemoryCache({ maxBodySize: 20 }) });
+
+    response = await defaultCachedFetch(`${httpBinBaseUrl}/bytes/30`);
+    assert.strictEqual((await response.arrayBuffer()).byteLength, 30);
+    await (await defaultCachedFetch(`${httpBinBaseUrl}/bytes/10`)).arrayBuffer();
+
+    assert.strictEqual(await isCached(`${httpBinBaseUrl}/bytes/30`), false);
+    assert.strictEqual(await isCached(`${httpBinBaseUrl}/bytes/10`), true);
+  });
+
+  it('Supports TTL with a maximum number of entries', async () => {
+    defaultCachedFetch = FetchCache.create({ cache: new MemoryCache({ ttl: 100, maxEntries: 1 }) });
+
+    await (await defaultCachedFetch(TWO_HUNDRED_URL)).text();
+    await (await defaultCachedFetch(TEXT_BODY_URL)).text();
+    assert.strictEqual(await isCached(TWO_HUNDRED_URL), false);
+    assert.strictEqual(await isCached(TEXT_BODY_URL), true);
+
+    await wait(200);
+
+    assert.strictEqual(await isCached(TEXT_BODY_URL), false);
+  });
+
+  it('Never returns entries whose TTL has passed', async () => {
+    const cache = new MemoryCache({ ttl: 100 });
+    defaultCachedFetch = FetchCache.create({ cache });
+
+    await (await defaultCachedFetch(TEXT_BODY_URL)).text();
+    await wait(200);
+
+    assert.strictEqual(await countEntries(cache), 1);
+    assert.strictEqual(await cache.get(await calculateCacheKey(TEXT_BODY_URL), { ignoreExpiration: true }), undefined);
+    assert.strictEqual(await countEntries(cache), 0);
+  });
+
+  it('Can periodically remove entries whose TTL has passed', async () => {
+    const cache = new MemoryCache({ ttl: 100, sweepInterval: 50 });
+    defaultCachedFetch = FetchCache.create({ cache });
+
+    await (await defaultCachedFetch(TEXT_BODY_URL)).text();
+    await (await defaultCachedFetch(TWO_HUNDRED_URL)).text();
+    assert.strictEqual(await countEntries(cache), 2);
+
+    await wait(250);
+
+    assert.strictEqual(await countEntries(cache), 0);
+  });
 }).timeout(10_000);
 
 describe('File system cache tests', () => {
@@ -609,168 +825,1920 @@ describe('File system cache tests', () => {
     response = await defaultCachedFetch(TWO_HUNDRED_URL);
     assert.strictEqual(response.returnedFromCache, true);
   });
-});
 
-describe('Cache mode tests', () => {
-  it('Can use the only-if-cached cache control setting via init', async () => {
-    response = await defaultCachedFetch(TWO_HUNDRED_URL, { headers: { 'Cache-Control': 'only-if-cached' } });
-    assert(response.status === 504 && response.isCacheMiss);
-    response = await defaultCachedFetch(TWO_HUNDRED_URL, { headers: { 'Cache-Control': 'only-if-cached' } });
-    assert(response.status === 504 && response.isCacheMiss);
-    response = await defaultCachedFetch(TWO_HUNDRED_URL);
-    assert(response && !response.returnedFromCache);
-    response = await defaultCachedFetch(TWO_HUNDRED_URL, { headers: { 'Cache-Control': 'only-if-cached' } });
-    assert(response?.returnedFromCache);
-    await response.ejectFromCache();
-    response = await defaultCachedFetch(TWO_HUNDRED_URL, { headers: { 'Cache-Control': 'only-if-cached' } });
-    assert(response.status === 504 && response.isCacheMiss);
-  });
+  it('Evicts the least recently used entries beyond maxSize', async () => {
+    defaultCachedFetch = FetchCache.create({ cache: new FileSystemCache({ maxSize: 50 }) });
 
-  it('Can use the only-if-cached cache control setting via resource', async () => {
-    response = await defaultCachedFetch(
-      new StandardFetchRequest(TWO_HUNDRED_URL, { headers: { 'Cache-Control': 'only-if-cached' } }),
-    );
-    assert(response.status === 504 && response.isCacheMiss);
-    response = await defaultCachedFetch(new StandardFetchRequest(TWO_HUNDRED_URL));
-    assert(response && !response.returnedFromCache);
-    response = await defaultCachedFetch(
-      new StandardFetchRequest(TWO_HUNDRED_URL, { headers: { 'Cache-Control': 'only-if-cached' } }),
-    );
-    assert(response?.returnedFromCache);
+    for (const url of [`${httpBinBaseUrl}/bytes/20`, `${httpBinBaseUrl}/bytes/25`, `${httpBinBaseUrl}/bytes/20`]) {
+      await (await defaultCachedFetch(url)).arrayBuffer();
+      await wait(20);
+    }
+
+    await (await defaultCachedFetch(`${httpBinBaseUrl}/bytes/10`)).arrayBuffer();
+
+    response = await defaultCachedFetch(`${httpBinBaseUrl}/bytes/25`, { cache: 'only-if-cached' });
+    assert.strictEqual(response.returnedFromCache, false);
+
+    for (const url of [`${httpBinBaseUrl}/bytes/20`, `${httpBinBaseUrl}/bytes/10`]) {
+      response = await defaultCachedFetch(url, { cache: 'only-if-cached' });
+      assert.strictEqual(response.returnedFromCache, true);
+      await response.arrayBuffer();
+    }
   });
 
-  it('Works with only-if-cached along with other cache-control directives', async () => {
-    response = await defaultCachedFetch(
-      new StandardFetchRequest(TWO_HUNDRED_URL, { headers: { 'cAcHe-cOnTrOl': '   only-if-cached  , no-store ' } }),
-    );
-    assert(response.status === 504 && response.isCacheMiss);
-    response = await defaultCachedFetch(TWO_HUNDRED_URL, {
-      headers: { 'cAcHe-cOnTrOl': '   only-if-cached  , no-store ' },
-    });
-    assert(response.status === 504 && response.isCacheMiss);
+  it('Can prune expired entries', async () => {
+    const cache = new FileSystemCache({ ttl: 100 });
+    defaultCachedFetch = FetchCache.create({ cache });
+
+    await (await defaultCachedFetch(TEXT_BODY_URL)).text();
+    await (await defaultCachedFetch(TWO_HUNDRED_URL, undefined, { tags: ['status'] })).text();
+    await wait(200);
+    await (await defaultCachedFetch(JSON_BODY_URL)).text();
+
+    assert.strictEqual(await countEntries(cache), 3);
+    await cache.prune();
+    assert.strictEqual(await countEntries(cache), 1);
+    assert.deepStrictEqual(fs.readdirSync(path.join(CACHE_PATH, 'tags-v1')), []);
+
+    response = await defaultCachedFetch(JSON_BODY_URL);
+    assert.strictEqual(response.returnedFromCache, true);
+    assert.strictEqual(await response.text(), JSON_BODY_EXPECTED);
   });
-});
 
-describe('Cache key tests', () => {
-  it('Can calculate a cache key and check that it exists', async () => {
-    await defaultCachedFetch(TWO_HUNDRED_URL);
+  it('Compacts the index when pruning and removes index entries fully', async () => {
+    const cache = new FileSystemCache();
+    defaultCachedFetch = FetchCache.create({ cache });
 
-    const cacheKey = await calculateCacheKey(TWO_HUNDRED_URL);
-    const nonExistentCacheKey = await calculateCacheKey(TEXT_BODY_URL);
+    const getIndexBuckets = () => (fs.readdirSync(path.join(CACHE_PATH, 'index-v5'), { recursive: true }) as string[])
+      .map(indexFile => path.join(CACHE_PATH, 'index-v5', indexFile))
+      .filter(indexPath => fs.statSync(indexPath).isFile())
+      .map(indexPath => fs.readFileSync(indexPath, 'utf8').split('\n').filter(Boolean));
 
-    const cacheKeyResult = await defaultCache.get(cacheKey);
-    const nonExistentCacheKeyResult = await defaultCache.get(nonExistentCacheKey);
+    for (let i = 0; i < 3; i++) {
+      await (await defaultCachedFetch(TEXT_BODY_URL, { cache: 'reload' })).text();
+    }
 
-    assert(cacheKeyResult);
-    assert(!nonExistentCacheKeyResult);
+    assert.deepStrictEqual(getIndexBuckets().map(bucket => bucket.length), [3]);
+    await cache.prune();
+    assert.deepStrictEqual(getIndexBuckets().map(bucket => bucket.length), [1]);
+
+    response = await defaultCachedFetch(TEXT_BODY_URL);
+    assert.strictEqual(response.returnedFromCache, true);
+    await response.ejectFromCache();
+    assert.deepStrictEqual(getIndexBuckets(), []);
   });
-});
 
-describe('Cache strategy tests', () => {
-  it('Can use a custom cache strategy to cache only OKAY responses', async () => {
-    const customCachedFetch = FetchCache.create({
-      cache: defaultCache,
-      shouldCacheResponse: cacheStrategies.cacheOkayOnly,
-    });
+  it('Can prune automatically', async () => {
+    // The prune interval outlives the test, so it must not prune the directory that other tests use.
+    const cache = new FileSystemCache({ ttl: 50, pruneInterval: 100, cacheDirectory: path.join(CACHE_PATH, 'pruned') });
+    defaultCachedFetch = FetchCache.create({ cache });
 
-    response = await customCachedFetch(FOUR_HUNDRED_URL);
-    assert.strictEqual(response.returnedFromCache, false);
+    await (await defaultCachedFetch(TEXT_BODY_URL)).text();
+    await wait(300);
 
-    response = await customCachedFetch(FOUR_HUNDRED_URL);
-    assert.strictEqual(response.returnedFromCache, false);
+    assert.strictEqual(await countEntries(cache), 0);
+  });
 
-    response = await customCachedFetch(TWO_HUNDRED_URL);
+  function corruptCachedContent(corrupt: (content: Buffer) => Buffer) {
+    const contentDirectory = path.join(CACHE_PATH, 'content-v2');
+
+    for (const contentFile of fs.readdirSync(contentDirectory, { recursive: true }) as string[]) {
+      const contentPath = path.join(contentDirectory, contentFile);
+
+      if (fs.statSync(contentPath).isFile()) {
+        fs.chmodSync(contentPath, 0o644);
+        fs.writeFileSync(contentPath, corrupt(fs.readFileSync(contentPath)));
+      }
+    }
+  }
+
+  function reverseBytes(content: Buffer) {
+    return Buffer.from(content).reverse();
+  }
+
+  it('Fetches again and reports corrupt entries when content is truncated', async () => {
+    const corruptKeys: string[] = [];
+    defaultCachedFetch = FetchCache.create({
+      cache: new FileSystemCache({ onCorruptEntry: ({ key }) => corruptKeys.push(key) }),
+    });
+
+    await (await defaultCachedFetch(TEXT_BODY_URL)).text();
+    corruptCachedContent(content => content.subarray(0, 5));
+
+    response = await defaultCachedFetch(TEXT_BODY_URL);
     assert.strictEqual(response.returnedFromCache, false);
+    assert.strictEqual(await response.text(), TEXT_BODY_EXPECTED);
+    assert.deepStrictEqual(corruptKeys, [await calculateCacheKey(TEXT_BODY_URL)]);
 
-    response = await customCachedFetch(TWO_HUNDRED_URL);
+    response = await defaultCachedFetch(TEXT_BODY_URL);
     assert.strictEqual(response.returnedFromCache, true);
+    assert.strictEqual(await response.text(), TEXT_BODY_EXPECTED);
   });
 
-  it('Can use a custom cache strategy via the call to fetch to cache only OKAY responses', async () => {
-    const customCachedFetch = FetchCache.create({
-      cache: defaultCache,
-    });
+  it('Fetches again when content is missing', async () => {
+    defaultCachedFetch = FetchCache.create({ cache: new FileSystemCache() });
 
-    response = await customCachedFetch(FOUR_HUNDRED_URL, undefined, {
-      shouldCacheResponse: cacheStrategies.cacheOkayOnly,
-    });
+    await (await defaultCachedFetch(TEXT_BODY_URL)).text();
+    rimraf.sync(path.join(CACHE_PATH, 'content-v2'));
+
+    response = await defaultCachedFetch(TEXT_BODY_URL);
     assert.strictEqual(response.returnedFromCache, false);
+    assert.strictEqual(await response.text(), TEXT_BODY_EXPECTED);
+  });
 
-    response = await customCachedFetch(FOUR_HUNDRED_URL, undefined, {
-      shouldCacheResponse: cacheStrategies.cacheOkayOnly,
+  it('Removes entries whose content is found to be modified while it is read', async () => {
+    const corruptKeys: string[] = [];
+    defaultCachedFetch = FetchCache.create({
+      cache: new FileSystemCache({ onCorruptEntry: ({ key }) => corruptKeys.push(key) }),
     });
+
+    await (await defaultCachedFetch(TEXT_BODY_URL)).text();
+    corruptCachedContent(reverseBytes);
+
+    response = await defaultCachedFetch(TEXT_BODY_URL);
+    assert.strictEqual(response.returnedFromCache, true);
+    await assert.rejects(async () => response.text(), /integrity/);
+    await wait(50);
+    assert.deepStrictEqual(corruptKeys, [await calculateCacheKey(TEXT_BODY_URL)]);
+
+    response = await defaultCachedFetch(TEXT_BODY_URL);
     assert.strictEqual(response.returnedFromCache, false);
+    assert.strictEqual(await response.text(), TEXT_BODY_EXPECTED);
+  });
 
-    response = await customCachedFetch(FOUR_HUNDRED_URL, undefined, {
-      shouldCacheResponse: cacheStrategies.cacheNon5xxOnly,
+  it('Can verify the whole content before returning it', async () => {
+    const corruptKeys: string[] = [];
+    defaultCachedFetch = FetchCache.create({
+      cache: new FileSystemCache({ verifyContent: true, onCorruptEntry: ({ key }) => corruptKeys.push(key) }),
     });
+
+    await (await defaultCachedFetch(TEXT_BODY_URL)).text();
+    corruptCachedContent(reverseBytes);
+
+    response = await defaultCachedFetch(TEXT_BODY_URL);
     assert.strictEqual(response.returnedFromCache, false);
+    assert.strictEqual(await response.text(), TEXT_BODY_EXPECTED);
+    assert.deepStrictEqual(corruptKeys, [await calculateCacheKey(TEXT_BODY_URL)]);
 
-    response = await customCachedFetch(FOUR_HUNDRED_URL);
+    response = await defaultCachedFetch(TEXT_BODY_URL);
     assert.strictEqual(response.returnedFromCache, true);
+    assert.strictEqual(await response.text(), TEXT_BODY_EXPECTED);
   });
+});
 
-  it('Can use the cacheNon5xxOnly built-in strategy', async () => {
-    const customCachedFetch = FetchCache.create({
-      cache: defaultCache,
-      shouldCacheResponse: cacheStrategies.cacheNon5xxOnly,
-    });
+describe('SQLite cache tests', function () {
+  const DATABASE_PATH = path.join(CACHE_PATH, 'cache.sqlite');
+  let cache: SqliteCache;
 
-    response = await customCachedFetch(FOUR_HUNDRED_URL);
+  before(function () {
+    if (!sqliteAvailable) {
+      this.skip();
+    }
+  });
+
+  beforeEach(() => {
+    cache = new SqliteCache({ databasePath: DATABASE_PATH });
+    defaultCachedFetch = FetchCache.create({ cache });
+  });
+
+  afterEach(async () => {
+    await cache.close();
+  });
+
+  it('Caches responses', async () => {
+    response = await defaultCachedFetch(PNG_BODY_URL);
     assert.strictEqual(response.returnedFromCache, false);
+    assert(expectedPngBuffer.equals(Buffer.from(await response.arrayBuffer())));
 
-    response = await customCachedFetch(FOUR_HUNDRED_URL);
+    response = await defaultCachedFetch(PNG_BODY_URL);
     assert.strictEqual(response.returnedFromCache, true);
+    assert(expectedPngBuffer.equals(Buffer.from(await response.arrayBuffer())));
 
-    response = await customCachedFetch(FIVE_HUNDRED_URL);
-    assert.strictEqual(response.returnedFromCache, false);
+    await response.ejectFromCache();
 
-    response = await customCachedFetch(FIVE_HUNDRED_URL);
+    response = await defaultCachedFetch(PNG_BODY_URL);
     assert.strictEqual(response.returnedFromCache, false);
   });
 
-  it('Can use a custom cache strategy that uses the response body', async () => {
-    const customCachedFetch = FetchCache.create({
-      cache: defaultCache,
-      async shouldCacheResponse(response) {
-        const body = await response.text();
-        return Boolean(body);
-      },
-    });
+  it('Shares the cache between instances', async () => {
+    await (await defaultCachedFetch(TEXT_BODY_URL)).text();
 
-    response = await customCachedFetch(TEXT_BODY_URL);
-    assert.strictEqual(response.returnedFromCache, false);
+    const otherCache = new SqliteCache({ databasePath: DATABASE_PATH });
+    response = await FetchCache.create({ cache: otherCache })(TEXT_BODY_URL);
+    await otherCache.close();
+
+    assert.strictEqual(response.returnedFromCache, true);
     assert.strictEqual(await response.text(), TEXT_BODY_EXPECTED);
   });
 
-  it('Can use a custom cache strategy that uses the response for all response types', async () => {
-    const functionsThatUseResponse = [
-      'arrayBuffer',
-      'blob',
-      'buffer',
-      'json',
-      'text',
-    ] as const;
+  it('Shares the cache with other processes', async () => {
+    // Long enough for the processes to never give up on writing on a busy machine.
+    const busyTimeout = 10_000;
+    const metaData = { status: 200, statusText: 'OK', headers: {}, size: 0, counter: 0 };
+    const childScript = `
+      import { Readable } from 'stream';
+      import { SqliteCache } from ${JSON.stringify(path.join(__dirname, '..', 'src', 'index.ts'))};
+
+      const cache = new SqliteCache({ databasePath: ${JSON.stringify(DATABASE_PATH)}, busyTimeout: ${busyTimeout} });
+      for (let i = 0; i < 500; i++) {
+        const url = 'http://example.com/child/' + i;
+        (await cache.set(url, Readable.from(Buffer.from('child')), { ...${JSON.stringify(metaData)}, url })).bodyStream.resume();
+      }
 
-    await Promise.all(
-      functionsThatUseResponse.map(async functionName => {
-        const newFetch = FetchCache.create({
-          cache: new MemoryCache(),
-        });
+      await cache.close();
+    `;
 
-        response = await newFetch(JSON_BODY_URL, undefined, {
-          async shouldCacheResponse(response) {
-            await response[functionName]();
-            return true;
-          },
-        });
+    cache = new SqliteCache({ databasePath: DATABASE_PATH, busyTimeout });
 
-        assert.strictEqual(response.returnedFromCache, false);
+    // Creates the database before the child process opens it.
+    await cache.list();
+    const child = spawn(process.execPath, ['--import', 'tsx', '--input-type=module', '--eval', childScript], { stdio: 'inherit' });
+    const childExit = once(child, 'exit') as Promise<[number]>;
 
-        // Because when the json() function is used all of the whitespace in
-        // the response is lost, something a little special happens when we
-        // snipe the response body from json(). The cached response will have
-        // the whitespace stripped out, even though the original response may
+    // Writes while the child process is writing too.
+    while (child.exitCode === null && !await cache.get('http://example.com/child/0')) {
+      await wait(10);
+    }
+
+    for (let i = 0; i < 50; i++) {
+      const url = `http://example.com/parent/${i}`;
+      (await cache.set(url, Readable.from(Buffer.from('parent')), { ...metaData, url })).bodyStream.resume();
+      await wait(5);
+    }
+
+    const [exitCode] = await childExit;
+    assert.strictEqual(exitCode, 0);
+    assert.strictEqual((await cache.list()).length, 550);
+  }).timeout(20_000);
+
+  it('Reads and returns uncached responses while another connection holds the write lock', async () => {
+    cache = new SqliteCache({ databasePath: DATABASE_PATH, maxEntries: 10, busyTimeout: 10 });
+    defaultCachedFetch = FetchCache.create({ cache });
+    await (await defaultCachedFetch(TEXT_BODY_URL)).text();
+
+    const { DatabaseSync } = await import('node:sqlite' as string) as {
+      DatabaseSync: new (path: string) => { exec(sql: string): void; close(): void };
+    };
+    const otherConnection = new DatabaseSync(DATABASE_PATH);
+    otherConnection.exec('BEGIN IMMEDIATE');
+
+    try {
+      response = await defaultCachedFetch(TEXT_BODY_URL);
+      assert.strictEqual(response.returnedFromCache, true);
+      assert.strictEqual(await response.text(), TEXT_BODY_EXPECTED);
+
+      response = await defaultCachedFetch(JSON_BODY_URL);
+      assert.strictEqual(response.returnedFromCache, false);
+      assert.strictEqual(await response.text(), JSON_BODY_EXPECTED);
+    } finally {
+      otherConnection.exec('ROLLBACK');
+      otherConnection.close();
+    }
+
+    response = await defaultCachedFetch(JSON_BODY_URL);
+    assert.strictEqual(response.returnedFromCache, false);
+    await response.text();
+
+    response = await defaultCachedFetch(JSON_BODY_URL);
+    assert.strictEqual(response.returnedFromCache, true);
+  });
+
+  it('Tries to open the database again if it failed to open', async () => {
+    fs.mkdirSync(CACHE_PATH, { recursive: true });
+    fs.writeFileSync(path.join(CACHE_PATH, 'file'), '');
+    cache = new SqliteCache({ databasePath: path.join(CACHE_PATH, 'file', 'cache.sqlite') });
+
+    await assert.rejects(cache.list());
+
+    fs.rmSync(path.join(CACHE_PATH, 'file'));
+    assert.deepStrictEqual(await cache.list(), []);
+  });
+
+  it('Supports TTL and pruning', async () => {
+    cache = new SqliteCache({ databasePath: DATABASE_PATH, ttl: 100 });
+    defaultCachedFetch = FetchCache.create({ cache });
+
+    await (await defaultCachedFetch(TEXT_BODY_URL)).text();
+    await wait(200);
+
+    assert.strictEqual(await cache.get(await calculateCacheKey(TEXT_BODY_URL)), undefined);
+    assert.strictEqual((await cache.list()).length, 1);
+
+    await cache.prune();
+    assert.strictEqual((await cache.list()).length, 0);
+  });
+
+  it('Evicts the least recently used entries beyond maxEntries and maxSize', async () => {
+    cache = new SqliteCache({ databasePath: DATABASE_PATH, maxEntries: 2, maxSize: 50 });
+    defaultCachedFetch = FetchCache.create({ cache });
+
+    for (const url of [`${httpBinBaseUrl}/bytes/20`, `${httpBinBaseUrl}/bytes/25`, `${httpBinBaseUrl}/bytes/20`]) {
+      await (await defaultCachedFetch(url)).arrayBuffer();
+      await wait(10);
+    }
+
+    await (await defaultCachedFetch(`${httpBinBaseUrl}/bytes/10`)).arrayBuffer();
+    assert.deepStrictEqual(
+      (await cache.list()).map(({ metaData }) => metaData.url).sort(),
+      [`${httpBinBaseUrl}/bytes/10`, `${httpBinBaseUrl}/bytes/20`],
+    );
+
+    await (await defaultCachedFetch(`${httpBinBaseUrl}/bytes/5`)).arrayBuffer();
+    assert.deepStrictEqual(
+      (await cache.list()).map(({ metaData }) => metaData.url).sort(),
+      [`${httpBinBaseUrl}/bytes/10`, `${httpBinBaseUrl}/bytes/5`],
+    );
+  });
+
+  it('Lists and invalidates entries by URL and tag', async () => {
+    const itemUrl = `${httpBinBaseUrl}/anything/items/1`;
+
+    await (await defaultCachedFetch(itemUrl, undefined, { tags: ['items'] })).text();
+    await (await defaultCachedFetch(itemUrl, { headers: { Accept: 'text/plain' } })).text();
+    await (await defaultCachedFetch(TEXT_BODY_URL, undefined, { tags: ['robots'] })).text();
+
+    assert.strictEqual((await cache.list({ url: itemUrl })).length, 2);
+    assert.deepStrictEqual(
+      (await cache.list({ tag: 'items' })).map(({ key }) => key),
+      [await calculateCacheKey(itemUrl)],
+    );
+
+    await cache.invalidateTags(['items']);
+    assert.strictEqual((await cache.list({ url: itemUrl })).length, 1);
+
+    await defaultCachedFetch.invalidate({ url: itemUrl });
+    assert.strictEqual((await cache.list({ url: itemUrl })).length, 0);
+    assert.strictEqual((await cache.list()).length, 1);
+  });
+
+  it('Invalidates entries after unsafe requests', async () => {
+    const itemUrl = `${httpBinBaseUrl}/anything/items/1`;
+
+    await (await defaultCachedFetch(itemUrl)).text();
+    await (await defaultCachedFetch(TEXT_BODY_URL)).text();
+    await (await defaultCachedFetch(itemUrl, { method: 'DELETE' })).text();
+
+    assert.strictEqual(await cache.get(await calculateCacheKey(itemUrl)), undefined);
+    assert.notStrictEqual(await cache.get(await calculateCacheKey(TEXT_BODY_URL)), undefined);
+  });
+}).timeout(10_000);
+
+describe('Write-through tests', () => {
+  const DRIP_URL = `${httpBinBaseUrl}/drip?duration=1&numbytes=5&delay=0`;
+
+  for (const [cacheName, createCache] of cacheFactories) {
+    it(`Returns the response while its body is cached with the ${cacheName} cache`, async () => {
+      defaultCachedFetch = FetchCache.create({ cache: createCache(), writeThrough: true });
+
+      const start = Date.now();
+      response = await defaultCachedFetch(DRIP_URL);
+      assert(Date.now() - start < 500);
+      assert.strictEqual(response.returnedFromCache, false);
+      assert.strictEqual(await response.text(), '*****');
+
+      await wait(100);
+
+      response = await defaultCachedFetch(DRIP_URL);
+      assert.strictEqual(response.returnedFromCache, true);
+      assert.strictEqual(await response.text(), '*****');
+    });
+
+    it(`Does not cache the body if the caller stops reading it with the ${cacheName} cache`, async () => {
+      defaultCachedFetch = FetchCache.create({ cache: createCache(), writeThrough: true });
+
+      response = await defaultCachedFetch(DRIP_URL);
+      for await (const chunk of response.body!) {
+        assert.strictEqual(chunk.toString(), '*');
+        break;
+      }
+
+      await wait(1500);
+
+      response = await defaultCachedFetch(DRIP_URL, { cache: 'only-if-cached' });
+      assert.strictEqual(response.returnedFromCache, false);
+    });
+  }
+
+  it('Does not make concurrent requests wait for the body to be cached', async () => {
+    defaultCachedFetch = FetchCache.create({ cache: defaultCache, writeThrough: true });
+
+    const responses = await Promise.all([defaultCachedFetch(DRIP_URL), defaultCachedFetch(DRIP_URL)]);
+    assert(responses.every(response => !response.returnedFromCache));
+
+    const bodies = await Promise.all(responses.map(async response => response.text()));
+    assert.deepStrictEqual(bodies, ['*****', '*****']);
+  });
+
+  it('Does not read the body back from the file system cache after writing it', async () => {
+    const cache = new FileSystemCache({ verifyContent: true });
+    const get = cache.get.bind(cache);
+    let getCount = 0;
+    cache.get = async (...args) => {
+      getCount++;
+      return get(...args);
+    };
+
+    defaultCachedFetch = FetchCache.create({ cache, writeThrough: true });
+
+    response = await defaultCachedFetch(TEXT_BODY_URL);
+    const lookupCount = getCount;
+    assert.strictEqual(await response.text(), TEXT_BODY_EXPECTED);
+    await wait(50);
+    assert.strictEqual(getCount, lookupCount);
+
+    response = await defaultCachedFetch(TEXT_BODY_URL);
+    assert.strictEqual(response.returnedFromCache, true);
+    assert.strictEqual(await response.text(), TEXT_BODY_EXPECTED);
+  });
+
+  it('Caches bodies that were read by the cache strategy', async () => {
+    defaultCachedFetch = FetchCache.create({
+      cache: defaultCache,
+      writeThrough: true,
+      async shouldCacheResponse(fetchResponse) {
+        return (await fetchResponse.text()).length > 0;
+      },
+    });
+
+    response = await defaultCachedFetch(TEXT_BODY_URL);
+    assert.strictEqual(await response.text(), TEXT_BODY_EXPECTED);
+    await wait(50);
+
+    response = await defaultCachedFetch(TEXT_BODY_URL);
+    assert.strictEqual(response.returnedFromCache, true);
+    assert.strictEqual(await response.text(), TEXT_BODY_EXPECTED);
+  });
+}).timeout(10_000);
+
+describe('Cache mode tests', () => {
+  it('Can use the only-if-cached cache control setting via init', async () => {
+    response = await defaultCachedFetch(TWO_HUNDRED_URL, { headers: { 'Cache-Control': 'only-if-cached' } });
+    assert(response.status === 504 && response.isCacheMiss);
+    response = await defaultCachedFetch(TWO_HUNDRED_URL, { headers: { 'Cache-Control': 'only-if-cached' } });
+    assert(response.status === 504 && response.isCacheMiss);
+    response = await defaultCachedFetch(TWO_HUNDRED_URL);
+    assert(response && !response.returnedFromCache);
+    response = await defaultCachedFetch(TWO_HUNDRED_URL, { headers: { 'Cache-Control': 'only-if-cached' } });
+    assert(response?.returnedFromCache);
+    await response.ejectFromCache();
+    response = await defaultCachedFetch(TWO_HUNDRED_URL, { headers: { 'Cache-Control': 'only-if-cached' } });
+    assert(response.status === 504 && response.isCacheMiss);
+  });
+
+  it('Can use the only-if-cached cache control setting via resource', async () => {
+    response = await defaultCachedFetch(
+      new StandardFetchRequest(TWO_HUNDRED_URL, { headers: { 'Cache-Control': 'only-if-cached' } }),
+    );
+    assert(response.status === 504 && response.isCacheMiss);
+    response = await defaultCachedFetch(new StandardFetchRequest(TWO_HUNDRED_URL));
+    assert(response && !response.returnedFromCache);
+    response = await defaultCachedFetch(
+      new StandardFetchRequest(TWO_HUNDRED_URL, { headers: { 'Cache-Control': 'only-if-cached' } }),
+    );
+    assert(response?.returnedFromCache);
+  });
+
+  it('Works with only-if-cached along with other cache-control directives', async () => {
+    response = await defaultCachedFetch(
+      new StandardFetchRequest(TWO_HUNDRED_URL, { headers: { 'cAcHe-cOnTrOl': '   only-if-cached  , no-store ' } }),
+    );
+    assert(response.status === 504 && response.isCacheMiss);
+    response = await defaultCachedFetch(TWO_HUNDRED_URL, {
+      headers: { 'cAcHe-cOnTrOl': '   only-if-cached  , no-store ' },
+    });
+    assert(response.status === 504 && response.isCacheMiss);
+  });
+
+  it('Can use the only-if-cached cache control setting via a Headers instance or an array of pairs', async () => {
+    response = await defaultCachedFetch(TWO_HUNDRED_URL, {
+      headers: new StandardFetchHeaders({ 'Cache-Control': 'only-if-cached' }),
+    });
+    assert(response.status === 504 && response.isCacheMiss);
+    response = await defaultCachedFetch(TWO_HUNDRED_URL, { headers: [['Cache-Control', 'only-if-cached']] });
+    assert(response.status === 504 && response.isCacheMiss);
+    response = await defaultCachedFetch(TWO_HUNDRED_URL);
+    assert(response && !response.returnedFromCache);
+    response = await defaultCachedFetch(TWO_HUNDRED_URL, {
+      headers: new StandardFetchHeaders({ 'Cache-Control': 'only-if-cached' }),
+    });
+    assert(response?.returnedFromCache);
+    response = await defaultCachedFetch(TWO_HUNDRED_URL, { headers: [['Cache-Control', 'only-if-cached']] });
+    assert(response?.returnedFromCache);
+  });
+});
+
+describe('Cache header freshness tests', () => {
+  const maxAgeUrl = (directives: string) => `${httpBinBaseUrl}/response-headers?Cache-Control=${encodeURIComponent(directives)}`;
+
+  it('Ignores cache headers by default', async () => {
+    response = await defaultCachedFetch(maxAgeUrl('no-store'));
+    assert.strictEqual(response.returnedFromCache, false);
+
+    response = await defaultCachedFetch(maxAgeUrl('no-store'));
+    assert.strictEqual(response.returnedFromCache, true);
+  });
+
+  it('Expires responses according to max-age', async () => {
+    defaultCachedFetch = FetchCache.create({ cache: defaultCache, respectCacheHeaders: true });
+
+    response = await defaultCachedFetch(maxAgeUrl('max-age=2'));
+    assert.strictEqual(response.returnedFromCache, false);
+    assert(response.headers.get('cache-control'));
+
+    response = await defaultCachedFetch(maxAgeUrl('max-age=2'));
+    assert.strictEqual(response.returnedFromCache, true);
+
+    await wait(2100);
+
+    response = await defaultCachedFetch(maxAgeUrl('max-age=2'));
+    assert.strictEqual(response.returnedFromCache, false);
+  });
+
+  it('Does not serve responses that are stale on arrival', async () => {
+    defaultCachedFetch = FetchCache.create({ cache: defaultCache, respectCacheHeaders: true });
+
+    for (const url of [
+      maxAgeUrl('no-cache'),
+      maxAgeUrl('max-age=0'),
+      `${httpBinBaseUrl}/response-headers?Expires=0`,
+      TWO_HUNDRED_URL,
+    ]) {
+      response = await defaultCachedFetch(url); // eslint-disable-line no-await-in-loop
+      assert.strictEqual(response.returnedFromCache, false);
+
+      response = await defaultCachedFetch(url); // eslint-disable-line no-await-in-loop
+      assert.strictEqual(response.returnedFromCache, false);
+    }
+  });
+
+  it('Prefers s-maxage over max-age', async () => {
+    defaultCachedFetch = FetchCache.create({ cache: defaultCache, respectCacheHeaders: true });
+
+    response = await defaultCachedFetch(maxAgeUrl('max-age=0, s-maxage=60'));
+    response = await defaultCachedFetch(maxAgeUrl('max-age=0, s-maxage=60'));
+    assert.strictEqual(response.returnedFromCache, true);
+  });
+
+  it('Uses heuristic freshness based on Last-Modified', async () => {
+    defaultCachedFetch = FetchCache.create({ cache: defaultCache, respectCacheHeaders: true });
+    const lastModified = new Date(Date.now() - (24 * 60 * 60 * 1000)).toUTCString();
+    const url = `${httpBinBaseUrl}/response-headers?Last-Modified=${encodeURIComponent(lastModified)}`;
+
+    response = await defaultCachedFetch(url);
+    response = await defaultCachedFetch(url);
+    assert.strictEqual(response.returnedFromCache, true);
+  });
+
+  it('Is honored by FileSystemCache along with its TTL', async () => {
+    defaultCachedFetch = FetchCache.create({
+      cache: new FileSystemCache({ ttl: 100 }),
+      respectCacheHeaders: true,
+    });
+
+    response = await defaultCachedFetch(maxAgeUrl('max-age=60'));
+    response = await defaultCachedFetch(maxAgeUrl('max-age=60'));
+    assert.strictEqual(response.returnedFromCache, true);
+
+    response = await defaultCachedFetch(maxAgeUrl('max-age=0'));
+    response = await defaultCachedFetch(maxAgeUrl('max-age=0'));
+    assert.strictEqual(response.returnedFromCache, false);
+
+    await wait(200);
+
+    response = await defaultCachedFetch(maxAgeUrl('max-age=60'));
+    assert.strictEqual(response.returnedFromCache, false);
+  });
+}).timeout(10_000);
+
+describe('Revalidation tests', () => {
+  const ETAG_URL = `${httpBinBaseUrl}/etag/abc`;
+
+  it('Revalidates a stale response with its ETag and serves the cached body on 304', async () => {
+    defaultCachedFetch = FetchCache.create({ cache: new FileSystemCache({ ttl: 100 }) });
+
+    response = await defaultCachedFetch(ETAG_URL);
+    assert.strictEqual(response.returnedFromCache, false);
+    const body1 = await response.text();
+
+    await wait(200);
+
+    response = await defaultCachedFetch(ETAG_URL);
+    assert.strictEqual(response.returnedFromCache, true);
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual(await response.text(), body1);
+
+    response = await defaultCachedFetch(ETAG_URL);
+    assert.strictEqual(response.returnedFromCache, true);
+  });
+
+  it('Revalidates a stale response with its Last-Modified date', async () => {
+    defaultCachedFetch = FetchCache.create({ cache: defaultCache, respectCacheHeaders: true });
+    const url = `${httpBinBaseUrl}/cache`;
+
+    response = await defaultCachedFetch(url, { headers: { 'X-Test': 'last-modified' } });
+    assert.strictEqual(response.returnedFromCache, false);
+    assert(response.headers.get('last-modified'));
+    const body1 = await response.text();
+
+    response = await defaultCachedFetch(url, { headers: { 'X-Test': 'last-modified' } });
+    assert.strictEqual(response.returnedFromCache, true);
+    assert.strictEqual(await response.text(), body1);
+  });
+
+  it('Replaces the cached response if the server does not return 304', async () => {
+    defaultCachedFetch = FetchCache.create({ cache: defaultCache, respectCacheHeaders: true });
+    const url = `${httpBinBaseUrl}/response-headers?ETag=%22abc%22&Cache-Control=no-cache`;
+
+    response = await defaultCachedFetch(url);
+    assert.strictEqual(response.returnedFromCache, false);
+
+    response = await defaultCachedFetch(url);
+    assert.strictEqual(response.returnedFromCache, false);
+    assert.strictEqual(response.status, 200);
+  });
+
+  it('Does not revalidate responses without validators', async () => {
+    defaultCachedFetch = FetchCache.create({ cache: new FileSystemCache({ ttl: 100 }) });
+
+    response = await defaultCachedFetch(TWO_HUNDRED_URL);
+    await wait(200);
+
+    response = await defaultCachedFetch(TWO_HUNDRED_URL);
+    assert.strictEqual(response.returnedFromCache, false);
+  });
+}).timeout(10_000);
+
+describe('Stale-while-revalidate tests', () => {
+  const UUID_URL = `${httpBinBaseUrl}/uuid`;
+
+  it('Serves a stale response while refreshing it in the background', async () => {
+    defaultCachedFetch = FetchCache.create({
+      cache: new FileSystemCache({ ttl: 500 }),
+      staleWhileRevalidate: 10_000,
+    });
+
+    response = await defaultCachedFetch(UUID_URL);
+    const body1 = await response.text();
+
+    await wait(600);
+
+    response = await defaultCachedFetch(UUID_URL);
+    assert.strictEqual(response.returnedFromCache, true);
+    assert.strictEqual(response.isStale, true);
+    assert.strictEqual(await response.text(), body1);
+
+    await wait(100);
+
+    response = await defaultCachedFetch(UUID_URL);
+    assert.strictEqual(response.returnedFromCache, true);
+    assert.strictEqual(response.isStale, false);
+    assert.notStrictEqual(await response.text(), body1);
+  });
+
+  it('Does not serve responses that are older than the window', async () => {
+    defaultCachedFetch = FetchCache.create({
+      cache: new FileSystemCache({ ttl: 100 }),
+      staleWhileRevalidate: 100,
+    });
+
+    response = await defaultCachedFetch(UUID_URL);
+    await response.text();
+    await wait(300);
+
+    response = await defaultCachedFetch(UUID_URL);
+    assert.strictEqual(response.returnedFromCache, false);
+    assert.strictEqual(response.isStale, false);
+    await response.text();
+  });
+
+  it('Honors the stale-while-revalidate response directive', async () => {
+    defaultCachedFetch = FetchCache.create({ cache: defaultCache, respectCacheHeaders: true });
+    const url = `${httpBinBaseUrl}/response-headers?Cache-Control=${encodeURIComponent('max-age=0, stale-while-revalidate=60')}`;
+
+    response = await defaultCachedFetch(url);
+    assert.strictEqual(response.returnedFromCache, false);
+
+    response = await defaultCachedFetch(url);
+    assert.strictEqual(response.returnedFromCache, true);
+    assert.strictEqual(response.isStale, true);
+  });
+
+  it('Sends spooled request bodies with the background request', async () => {
+    let requestCount = 0;
+    defaultCachedFetch = FetchCache.create({
+      cache: new FileSystemCache({ ttl: 500 }),
+      staleWhileRevalidate: 10_000,
+      requestBodySpoolThreshold: 4,
+      shouldCacheResponse() {
+        requestCount += 1;
+        return true;
+      },
+    });
+
+    const postUrl = `${httpBinBaseUrl}/post`;
+    await (await defaultCachedFetch(postUrl, { method: 'POST', body: Readable.from([Buffer.from('hello world')]) })).text();
+    await wait(600);
+
+    response = await defaultCachedFetch(postUrl, { method: 'POST', body: Readable.from([Buffer.from('hello world')]) });
+    assert.strictEqual(response.isStale, true);
+    await response.text();
+
+    await wait(200);
+    assert.strictEqual(requestCount, 2);
+
+    response = await defaultCachedFetch(postUrl, { method: 'POST', body: Readable.from([Buffer.from('hello world')]) });
+    assert.strictEqual(response.isStale, false);
+    assert.strictEqual((await response.json() as { data: string }).data, 'hello world');
+
+    const spoolDirectories = fs.readdirSync(os.tmpdir()).filter(name => name.startsWith('node-fetch-cache-'));
+    assert.deepStrictEqual(spoolDirectories, []);
+  });
+
+  it('Makes only one background request for concurrent stale hits', async () => {
+    let requestCount = 0;
+    defaultCachedFetch = FetchCache.create({
+      cache: new FileSystemCache({ ttl: 1000 }),
+      staleWhileRevalidate: 10_000,
+      shouldCacheResponse() {
+        requestCount += 1;
+        return true;
+      },
+    });
+
+    await (await defaultCachedFetch(UUID_URL)).text();
+    await wait(1100);
+
+    const responses = await Promise.all(
+      Array(5).fill(0).map(async () => defaultCachedFetch(UUID_URL)),
+    );
+
+    assert(responses.every(response => response.isStale));
+    await Promise.all(responses.map(async response => response.text()));
+
+    await wait(200);
+    assert.strictEqual(requestCount, 2);
+  });
+}).timeout(10_000);
+
+describe('Request cache control directive tests', () => {
+  const UUID_URL = `${httpBinBaseUrl}/uuid`;
+  const cacheControl = (value: string) => ({ headers: { 'Cache-Control': value } });
+
+  it('Bypasses the cache with no-store', async () => {
+    response = await defaultCachedFetch(UUID_URL, cacheControl('no-store'));
+    assert.strictEqual(response.returnedFromCache, false);
+
+    response = await defaultCachedFetch(UUID_URL);
+    assert.strictEqual(response.returnedFromCache, false);
+    const body1 = await response.text();
+
+    response = await defaultCachedFetch(new StandardFetchRequest(UUID_URL, cacheControl('no-store')));
+    assert.strictEqual(response.returnedFromCache, false);
+    assert.notStrictEqual(await response.text(), body1);
+
+    response = await defaultCachedFetch(UUID_URL);
+    assert.strictEqual(response.returnedFromCache, true);
+    assert.strictEqual(await response.text(), body1);
+  });
+
+  it('Refetches responses without validators with no-cache', async () => {
+    response = await defaultCachedFetch(UUID_URL);
+    const body1 = await response.text();
+
+    response = await defaultCachedFetch(UUID_URL, cacheControl('no-cache'));
+    assert.strictEqual(response.returnedFromCache, false);
+    assert.notStrictEqual(await response.text(), body1);
+
+    response = await defaultCachedFetch(UUID_URL);
+    assert.strictEqual(response.returnedFromCache, true);
+  });
+
+  it('Revalidates responses with validators with no-cache', async () => {
+    const url = `${httpBinBaseUrl}/etag/abc`;
+    response = await defaultCachedFetch(url);
+    assert.strictEqual(response.returnedFromCache, false);
+
+    response = await defaultCachedFetch(url, cacheControl('no-cache'));
+    assert.strictEqual(response.returnedFromCache, true);
+  });
+
+  it('Refetches responses that are older than max-age', async () => {
+    response = await defaultCachedFetch(UUID_URL);
+    await wait(10);
+
+    response = await defaultCachedFetch(UUID_URL, cacheControl('max-age=60'));
+    assert.strictEqual(response.returnedFromCache, true);
+
+    response = await defaultCachedFetch(UUID_URL, cacheControl('max-age=0'));
+    assert.strictEqual(response.returnedFromCache, false);
+  });
+
+  it('Refetches responses without a Date header that are older than max-age', async () => {
+    class DatelessCache extends MemoryCache {
+      override async set(key: string, bodyStream: NodeJS.ReadableStream, metaData: NFCResponseMetadata) {
+        const { date, ...headers } = metaData.headers;
+        return super.set(key, bodyStream, { ...metaData, headers });
+      }
+    }
+
+    defaultCachedFetch = FetchCache.create({ cache: new DatelessCache() });
+
+    await (await defaultCachedFetch(UUID_URL)).text();
+    await wait(10);
+
+    response = await defaultCachedFetch(UUID_URL, cacheControl('max-age=60'));
+    assert.strictEqual(response.returnedFromCache, true);
+    assert.strictEqual(response.headers.get('date'), null);
+    await response.text();
+
+    response = await defaultCachedFetch(UUID_URL, cacheControl('max-age=0'));
+    assert.strictEqual(response.returnedFromCache, false);
+  });
+
+  it('Serves expired responses with max-stale', async () => {
+    defaultCachedFetch = FetchCache.create({ cache: new FileSystemCache({ ttl: 100 }) });
+
+    await (await defaultCachedFetch(UUID_URL)).text();
+    await wait(200);
+
+    response = await defaultCachedFetch(UUID_URL, cacheControl('max-stale=60'));
+    assert.strictEqual(response.returnedFromCache, true);
+    assert.strictEqual(response.isStale, true);
+    await response.text();
+
+    response = await defaultCachedFetch(UUID_URL, cacheControl('max-stale'));
+    assert.strictEqual(response.returnedFromCache, true);
+    await response.text();
+
+    response = await defaultCachedFetch(UUID_URL);
+    assert.strictEqual(response.returnedFromCache, false);
+    await response.text();
+  });
+
+  it('Refetches responses that will not stay fresh for min-fresh', async () => {
+    defaultCachedFetch = FetchCache.create({ cache: new FileSystemCache({ ttl: 5000 }) });
+
+    await (await defaultCachedFetch(UUID_URL)).text();
+
+    response = await defaultCachedFetch(UUID_URL, cacheControl('min-fresh=1'));
+    assert.strictEqual(response.returnedFromCache, true);
+    await response.text();
+
+    response = await defaultCachedFetch(UUID_URL, cacheControl('min-fresh=10'));
+    assert.strictEqual(response.returnedFromCache, false);
+    await response.text();
+  });
+
+  it('Leaves request directives out of the cache key', async () => {
+    const keyWithoutDirectives = await calculateCacheKey(TWO_HUNDRED_URL, { headers: { 'Cache-Control': 'no-transform' } });
+
+    for (const directives of ['max-age=0, no-transform', 'No-Cache,no-transform', 'no-transform, max-stale=5, min-fresh=1']) {
+      assert.strictEqual(
+        await calculateCacheKey(TWO_HUNDRED_URL, { headers: { 'Cache-Control': directives } }), // eslint-disable-line no-await-in-loop
+        keyWithoutDirectives,
+      );
+    }
+
+    assert.strictEqual(
+      await calculateCacheKey(TWO_HUNDRED_URL, cacheControl('no-store')),
+      await calculateCacheKey(TWO_HUNDRED_URL),
+    );
+  });
+}).timeout(10_000);
+
+describe('Request cache mode tests', () => {
+  const UUID_URL = `${httpBinBaseUrl}/uuid`;
+
+  it('Uses the cache normally with the default mode', async () => {
+    response = await defaultCachedFetch(UUID_URL, { cache: 'default' });
+    assert.strictEqual(response.returnedFromCache, false);
+
+    response = await defaultCachedFetch(UUID_URL, { cache: 'default' });
+    assert.strictEqual(response.returnedFromCache, true);
+  });
+
+  it('Bypasses the cache with the no-store mode', async () => {
+    response = await defaultCachedFetch(UUID_URL);
+    const body1 = await response.text();
+
+    response = await defaultCachedFetch(UUID_URL, { cache: 'no-store' });
+    assert.strictEqual(response.returnedFromCache, false);
+    assert.notStrictEqual(await response.text(), body1);
+
+    response = await defaultCachedFetch(UUID_URL);
+    assert.strictEqual(await response.text(), body1);
+  });
+
+  it('Replaces the cached response with the reload mode', async () => {
+    response = await defaultCachedFetch(`${httpBinBaseUrl}/etag/abc`);
+
+    response = await defaultCachedFetch(`${httpBinBaseUrl}/etag/abc`, { cache: 'reload' });
+    assert.strictEqual(response.returnedFromCache, false);
+
+    response = await defaultCachedFetch(UUID_URL);
+    const body1 = await response.text();
+
+    response = await defaultCachedFetch(UUID_URL, { cache: 'reload' });
+    assert.strictEqual(response.returnedFromCache, false);
+    const body2 = await response.text();
+    assert.notStrictEqual(body2, body1);
+
+    response = await defaultCachedFetch(UUID_URL);
+    assert.strictEqual(response.returnedFromCache, true);
+    assert.strictEqual(await response.text(), body2);
+  });
+
+  it('Revalidates the cached response with the no-cache mode', async () => {
+    response = await defaultCachedFetch(`${httpBinBaseUrl}/etag/abc`);
+
+    response = await defaultCachedFetch(`${httpBinBaseUrl}/etag/abc`, { cache: 'no-cache' });
+    assert.strictEqual(response.returnedFromCache, true);
+
+    response = await defaultCachedFetch(UUID_URL);
+    response = await defaultCachedFetch(UUID_URL, { cache: 'no-cache' });
+    assert.strictEqual(response.returnedFromCache, false);
+  });
+
+  it('Uses expired responses with the force-cache mode', async () => {
+    defaultCachedFetch = FetchCache.create({ cache: new FileSystemCache({ ttl: 100 }) });
+
+    response = await defaultCachedFetch(UUID_URL, { cache: 'force-cache' });
+    assert.strictEqual(response.returnedFromCache, false);
+    await response.text();
+
+    await wait(200);
+
+    response = await defaultCachedFetch(UUID_URL, { cache: 'force-cache' });
+    assert.strictEqual(response.returnedFromCache, true);
+    assert.strictEqual(response.isStale, true);
+    await response.text();
+  });
+
+  it('Returns a cache miss response with the only-if-cached mode', async () => {
+    defaultCachedFetch = FetchCache.create({ cache: new FileSystemCache({ ttl: 100 }) });
+
+    response = await defaultCachedFetch(UUID_URL, { cache: 'only-if-cached' });
+    assert(response.status === 504 && response.isCacheMiss);
+
+    await (await defaultCachedFetch(UUID_URL)).text();
+    await wait(200);
+
+    response = await defaultCachedFetch(UUID_URL, { cache: 'only-if-cached' });
+    assert.strictEqual(response.returnedFromCache, true);
+    assert.strictEqual(response.isStale, true);
+    await response.text();
+  });
+
+  it('Leaves the cache mode out of the cache key', async () => {
+    assert.strictEqual(
+      await calculateCacheKey(TWO_HUNDRED_URL, { cache: 'no-cache' }),
+      await calculateCacheKey(TWO_HUNDRED_URL),
+    );
+  });
+
+  it('Errors if the cache mode is not supported', async () => {
+    await assert.rejects(
+      async () => defaultCachedFetch(TWO_HUNDRED_URL, { cache: 'bogus' as 'default' }),
+      /Invalid cache mode/,
+    );
+  });
+}).timeout(10_000);
+
+describe('Vary tests', () => {
+  const VARY_URL = `${httpBinBaseUrl}/response-headers?Vary=X-Variant`;
+
+  for (const [cacheName, createCache] of cacheFactories) {
+    it(`Caches a variant per request header value with the ${cacheName} cache`, async () => {
+      defaultCachedFetch = FetchCache.create({ cache: createCache(), respectVary: true });
+
+      response = await defaultCachedFetch(VARY_URL, { headers: { 'X-Variant': 'a' } });
+      assert.strictEqual(response.returnedFromCache, false);
+      await response.text();
+
+      response = await defaultCachedFetch(VARY_URL, { headers: { 'X-Variant': 'b' } });
+      assert.strictEqual(response.returnedFromCache, false);
+      await response.text();
+
+      response = await defaultCachedFetch(VARY_URL, { headers: { 'X-Variant': 'a' } });
+      assert.strictEqual(response.returnedFromCache, true);
+      await response.text();
+
+      response = await defaultCachedFetch(VARY_URL, { headers: { 'X-Variant': 'b', 'X-Other': '1' } });
+      assert.strictEqual(response.returnedFromCache, true);
+      await response.text();
+    });
+  }
+
+  it('Uses the key format and hash algorithm of the primary cache key for variants', async () => {
+    const keys: string[] = [];
+    const cache = new MemoryCache();
+    const set = cache.set.bind(cache);
+    cache.set = async (key, ...args) => {
+      keys.push(key);
+      return set(key, ...args);
+    };
+
+    defaultCachedFetch = FetchCache.create({
+      cache,
+      respectVary: true,
+      calculateCacheKey: createPrimaryCacheKeyCalculator({ keyFormat: 'readable', hashAlgorithm: 'sha256' }),
+    });
+
+    await (await defaultCachedFetch(VARY_URL, { headers: { 'X-Variant': 'a' } })).text();
+    await (await defaultCachedFetch(VARY_URL, { headers: { 'X-Variant': 'a', 'X-Other': '1' } })).text();
+    await (await defaultCachedFetch(VARY_URL, { headers: { 'X-Variant': 'b' } })).text();
+
+    assert.strictEqual(keys.length, 4);
+    assert.match(keys[0]!, /^nfc:localhost:3000:[\da-f]{16}:[\da-f]{64}:vary$/);
+    assert.match(keys[1]!, /^nfc:localhost:3000:[\da-f]{16}:[\da-f]{64}:[\da-f]{64}$/);
+    assert.strictEqual(keys[2], keys[0]);
+    assert.notStrictEqual(keys[3], keys[1]);
+  });
+
+  it('Removes variants that can no longer be found', async () => {
+    const cache = new MemoryCache();
+    defaultCachedFetch = FetchCache.create({ cache, respectVary: true, calculateCacheKey: async () => 'key' });
+
+    await (await defaultCachedFetch(VARY_URL, { headers: { 'X-Variant': 'a' } })).text();
+    await (await defaultCachedFetch(VARY_URL, { headers: { 'X-Variant': 'b' } })).text();
+    assert.strictEqual(await countEntries(cache), 3);
+
+    const otherVaryUrl = `${httpBinBaseUrl}/response-headers?Vary=X-Other`;
+    await (await defaultCachedFetch(otherVaryUrl, { headers: { 'X-Other': 'a' } })).text();
+    assert.strictEqual(await countEntries(cache), 2);
+
+    await (await defaultCachedFetch(TWO_HUNDRED_URL)).text();
+    assert.strictEqual(await countEntries(cache), 1);
+    assert(await cache.get('key'));
+  });
+
+  it('Does not cache responses with Vary: *', async () => {
+    defaultCachedFetch = FetchCache.create({ respectVary: true });
+
+    response = await defaultCachedFetch(`${httpBinBaseUrl}/response-headers?Vary=*`);
+    assert.strictEqual(response.returnedFromCache, false);
+
+    response = await defaultCachedFetch(`${httpBinBaseUrl}/response-headers?Vary=*`);
+    assert.strictEqual(response.returnedFromCache, false);
+  });
+
+  it('Ignores Vary by default', async () => {
+    response = await defaultCachedFetch(VARY_URL);
+    assert.strictEqual(response.returnedFromCache, false);
+
+    response = await defaultCachedFetch(VARY_URL, { headers: { 'X-Variant': 'a' } });
+    assert.strictEqual(response.returnedFromCache, false);
+
+    response = await defaultCachedFetch(VARY_URL);
+    assert.strictEqual(response.returnedFromCache, true);
+  });
+
+  it('Uses a primary cache key that ignores request headers', async () => {
+    assert.strictEqual(
+      await calculatePrimaryCacheKey(VARY_URL, { headers: { 'X-Variant': 'a' } }),
+      await calculatePrimaryCacheKey(VARY_URL),
+    );
+
+    assert.notStrictEqual(
+      await calculatePrimaryCacheKey(VARY_URL, { method: 'POST' }),
+      await calculatePrimaryCacheKey(VARY_URL),
+    );
+  });
+});
+
+describe('Cache tag tests', () => {
+  const CUSTOMER_URL = `${httpBinBaseUrl}/anything/customers/42`;
+  const ORDERS_URL = `${httpBinBaseUrl}/anything/customers/42/orders`;
+
+  for (const [cacheName, createCache] of cacheFactories) {
+    it(`Invalidates tagged responses with the ${cacheName} cache`, async () => {
+      const cache = createCache();
+      defaultCachedFetch = FetchCache.create({ cache });
+
+      await (await defaultCachedFetch(CUSTOMER_URL, undefined, { tags: ['customer:42'] })).text();
+      await (await defaultCachedFetch(ORDERS_URL, undefined, { tags: ['customer:42', 'orders'] })).text();
+      await (await defaultCachedFetch(TEXT_BODY_URL, undefined, { tags: ['robots'] })).text();
+
+      await cache.invalidateTags(['customer:42']);
+
+      response = await defaultCachedFetch(CUSTOMER_URL);
+      assert.strictEqual(response.returnedFromCache, false);
+      await response.text();
+
+      response = await defaultCachedFetch(ORDERS_URL);
+      assert.strictEqual(response.returnedFromCache, false);
+      await response.text();
+
+      response = await defaultCachedFetch(TEXT_BODY_URL);
+      assert.strictEqual(response.returnedFromCache, true);
+      await response.text();
+    });
+
+    it(`Does not invalidate responses that were replaced without the tag with the ${cacheName} cache`, async () => {
+      const cache = createCache();
+      defaultCachedFetch = FetchCache.create({ cache });
+
+      await (await defaultCachedFetch(CUSTOMER_URL, undefined, { tags: ['customer:42'] })).text();
+      await (await defaultCachedFetch(CUSTOMER_URL, { cache: 'reload' })).text();
+
+      await cache.invalidateTags(['customer:42']);
+
+      response = await defaultCachedFetch(CUSTOMER_URL);
+      assert.strictEqual(response.returnedFromCache, true);
+      await response.text();
+    });
+  }
+
+  it('Stores tags in the response metadata', async () => {
+    defaultCachedFetch = FetchCache.create({ cache: defaultCache, tags: ['customers'] });
+
+    await (await defaultCachedFetch(CUSTOMER_URL)).text();
+    await (await defaultCachedFetch(TEXT_BODY_URL, undefined, { tags: [] })).text();
+
+    const taggedValue = await defaultCache.get(await calculateCacheKey(CUSTOMER_URL));
+    const untaggedValue = await defaultCache.get(await calculateCacheKey(TEXT_BODY_URL));
+
+    assert.deepStrictEqual(taggedValue?.metaData.tags, ['customers']);
+    assert.strictEqual(untaggedValue?.metaData.tags, undefined);
+  });
+
+  it('Can calculate tags from the request and response', async () => {
+    defaultCachedFetch = FetchCache.create({
+      cache: defaultCache,
+      tags: (fetchResponse, request) => [
+        `customer:${new URL(request.url).pathname.split('/')[3]!}`,
+        `status:${fetchResponse.status}`,
+      ],
+    });
+
+    await (await defaultCachedFetch(ORDERS_URL)).text();
+
+    const cachedValue = await defaultCache.get(await calculateCacheKey(ORDERS_URL));
+    assert.deepStrictEqual(cachedValue?.metaData.tags, ['customer:42', 'status:200']);
+
+    await defaultCache.invalidateTags(['status:200']);
+
+    response = await defaultCachedFetch(ORDERS_URL);
+    assert.strictEqual(response.returnedFromCache, false);
+  });
+});
+
+describe('Invalidation filter tests', () => {
+  const ITEM_URL = `${httpBinBaseUrl}/anything/items/1`;
+  const OTHER_ITEM_URL = `${httpBinBaseUrl}/anything/items/2`;
+
+  async function cacheResponses(urls: string[]) {
+    for (const url of urls) {
+      await (await defaultCachedFetch(url)).text();
+      await (await defaultCachedFetch(url, { headers: { Accept: 'text/plain' } })).text();
+    }
+  }
+
+  async function isCached(url: string) {
+    const cacheResponse = await defaultCachedFetch(url, { cache: 'only-if-cached' });
+    await cacheResponse.text();
+    return cacheResponse.returnedFromCache;
+  }
+
+  for (const [cacheName, createCache] of cacheFactories) {
+    it(`Invalidates all responses for a URL with the ${cacheName} cache`, async () => {
+      const cache = createCache();
+      defaultCachedFetch = FetchCache.create({ cache });
+      await cacheResponses([ITEM_URL, OTHER_ITEM_URL]);
+
+      await cache.invalidate({ url: ITEM_URL });
+
+      assert.strictEqual(await isCached(ITEM_URL), false);
+      assert.strictEqual(await isCached(OTHER_ITEM_URL), true);
+    });
+  }
+
+  it('Invalidates responses by URL prefix', async () => {
+    await cacheResponses([ITEM_URL, OTHER_ITEM_URL, TEXT_BODY_URL]);
+
+    await defaultCachedFetch.invalidate({ urlPrefix: `${httpBinBaseUrl}/anything/items/` });
+
+    assert.strictEqual(await isCached(ITEM_URL), false);
+    assert.strictEqual(await isCached(OTHER_ITEM_URL), false);
+    assert.strictEqual(await isCached(TEXT_BODY_URL), true);
+  });
+
+  it('Invalidates responses by host', async () => {
+    await cacheResponses([ITEM_URL, TEXT_BODY_URL]);
+
+    await defaultCachedFetch.invalidate({ host: 'example.com' });
+    assert.strictEqual(await isCached(ITEM_URL), true);
+
+    await defaultCachedFetch.invalidate({ host: 'LOCALHOST' });
+    assert.strictEqual(await isCached(ITEM_URL), false);
+    assert.strictEqual(await isCached(TEXT_BODY_URL), false);
+  });
+
+  it('Invalidates responses that match all of the criteria', async () => {
+    await cacheResponses([ITEM_URL, TEXT_BODY_URL]);
+
+    await defaultCachedFetch.invalidate({
+      host: 'localhost:3000',
+      predicate: metaData => metaData.headers['content-type']?.[0] === 'text/plain',
+    });
+
+    assert.strictEqual(await isCached(ITEM_URL), true);
+    assert.strictEqual(await isCached(TEXT_BODY_URL), false);
+  });
+
+  it('Errors if the filter has no criteria', async () => {
+    await assert.rejects(async () => defaultCachedFetch.invalidate({}), TypeError);
+  });
+
+  it('Errors if the cache does not implement removeMatching', async () => {
+    defaultCachedFetch = FetchCache.create({
+      cache: {
+        get: async () => undefined,
+        set: async (key, bodyStream, metaData) => ({ bodyStream, metaData }),
+        remove: async () => undefined,
+      },
+    });
+
+    await assert.rejects(async () => defaultCachedFetch.invalidate({ url: ITEM_URL }), TypeError);
+  });
+});
+
+describe('Unsafe request invalidation tests', () => {
+  const ITEM_URL = `${httpBinBaseUrl}/anything/item`;
+
+  for (const [cacheName, createCache] of cacheFactories) {
+    it(`Invalidates cached responses for the request URL with the ${cacheName} cache`, async () => {
+      defaultCachedFetch = FetchCache.create({ cache: createCache() });
+
+      await (await defaultCachedFetch(ITEM_URL)).text();
+      await (await defaultCachedFetch(ITEM_URL, { method: 'DELETE' })).text();
+
+      response = await defaultCachedFetch(ITEM_URL);
+      assert.strictEqual(response.returnedFromCache, false);
+      await response.text();
+
+      response = await defaultCachedFetch(ITEM_URL);
+      assert.strictEqual(response.returnedFromCache, true);
+      await response.text();
+    });
+  }
+
+  it('Invalidates cached responses for the Location and Content-Location URLs', async () => {
+    const otherUrl = `${httpBinBaseUrl}/anything/other`;
+    const unsafeUrl = `${httpBinBaseUrl}/response-headers?Location=/anything/item&Content-Location=${encodeURIComponent(otherUrl)}`;
+
+    await (await defaultCachedFetch(ITEM_URL)).text();
+    await (await defaultCachedFetch(otherUrl)).text();
+    await (await defaultCachedFetch(unsafeUrl, post('data'))).text();
+
+    response = await defaultCachedFetch(ITEM_URL);
+    assert.strictEqual(response.returnedFromCache, false);
+
+    response = await defaultCachedFetch(otherUrl);
+    assert.strictEqual(response.returnedFromCache, false);
+  });
+
+  it('Does not invalidate cached responses after failed or safe requests', async () => {
+    await (await defaultCachedFetch(FOUR_HUNDRED_URL)).text();
+    await (await defaultCachedFetch(FOUR_HUNDRED_URL, post('data'))).text();
+
+    response = await defaultCachedFetch(FOUR_HUNDRED_URL);
+    assert.strictEqual(response.returnedFromCache, true);
+
+    await (await defaultCachedFetch(ITEM_URL)).text();
+    await (await defaultCachedFetch(ITEM_URL, { method: 'OPTIONS' })).text();
+
+    response = await defaultCachedFetch(ITEM_URL);
+    assert.strictEqual(response.returnedFromCache, true);
+  });
+
+  it('Does not invalidate cached responses if invalidateAfterUnsafeRequests is false', async () => {
+    defaultCachedFetch = FetchCache.create({ cache: defaultCache, invalidateAfterUnsafeRequests: false });
+
+    await (await defaultCachedFetch(ITEM_URL)).text();
+    await (await defaultCachedFetch(ITEM_URL, { method: 'DELETE' })).text();
+
+    response = await defaultCachedFetch(ITEM_URL);
+    assert.strictEqual(response.returnedFromCache, true);
+  });
+
+  it('Invalidates through the URL index without looking at other entries', async () => {
+    await (await defaultCachedFetch(ITEM_URL)).text();
+    await (await defaultCachedFetch(TEXT_BODY_URL)).text();
+
+    defaultCache.removeMatching = async () => {
+      throw new Error('removeMatching() should not be called');
+    };
+
+    await (await defaultCachedFetch(ITEM_URL, { method: 'DELETE' })).text();
+
+    response = await defaultCachedFetch(ITEM_URL);
+    assert.strictEqual(response.returnedFromCache, false);
+
+    response = await defaultCachedFetch(TEXT_BODY_URL);
+    assert.strictEqual(response.returnedFromCache, true);
+  });
+
+  it('Invalidates cached responses after unsafe requests that bypass the cache', async () => {
+    await (await defaultCachedFetch(ITEM_URL)).text();
+    await (await defaultCachedFetch(ITEM_URL, { method: 'PUT', cache: 'no-store' })).text();
+
+    response = await defaultCachedFetch(ITEM_URL);
+    assert.strictEqual(response.returnedFromCache, false);
+  });
+});
+
+describe('HEAD request tests', () => {
+  const UUID_URL = `${httpBinBaseUrl}/uuid`;
+
+  it('Serves HEAD requests from a cached GET response', async () => {
+    const getResponse = await defaultCachedFetch(UUID_URL);
+    await getResponse.text();
+
+    response = await defaultCachedFetch(UUID_URL, { method: 'HEAD' });
+    assert.strictEqual(response.returnedFromCache, true);
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual(response.headers.get('content-type'), getResponse.headers.get('content-type'));
+    assert.strictEqual(await response.text(), '');
+  });
+
+  it('Serves HEAD requests with Request objects from a cached GET response', async () => {
+    await (await defaultCachedFetch(new StandardFetchRequest(UUID_URL))).text();
+
+    response = await defaultCachedFetch(new StandardFetchRequest(UUID_URL, { method: 'HEAD' }));
+    assert.strictEqual(response.returnedFromCache, true);
+    assert.strictEqual(await response.text(), '');
+  });
+
+  it('Does not serve GET requests from a cached HEAD response', async () => {
+    response = await defaultCachedFetch(UUID_URL, { method: 'HEAD' });
+    assert.strictEqual(response.returnedFromCache, false);
+
+    response = await defaultCachedFetch(UUID_URL, { method: 'HEAD' });
+    assert.strictEqual(response.returnedFromCache, true);
+
+    response = await defaultCachedFetch(UUID_URL);
+    assert.strictEqual(response.returnedFromCache, false);
+    assert(JSON.parse(await response.text()).uuid);
+  });
+
+  it('Does not serve GET requests from a cached HEAD response with a cache key that ignores the method', async () => {
+    defaultCachedFetch = FetchCache.create({ calculateCacheKey: async () => 'key', cache: defaultCache });
+
+    await (await defaultCachedFetch(UUID_URL, { method: 'HEAD' })).text();
+
+    response = await defaultCachedFetch(UUID_URL);
+    assert.strictEqual(response.returnedFromCache, false);
+    assert(JSON.parse(await response.text()).uuid);
+  });
+});
+
+describe('Range request tests', () => {
+  const bodyLength = TEXT_BODY_EXPECTED.length;
+
+  beforeEach(async () => {
+    await (await defaultCachedFetch(TEXT_BODY_URL)).text();
+  });
+
+  it('Answers single range requests from the cached response', async () => {
+    response = await defaultCachedFetch(TEXT_BODY_URL, { headers: { Range: 'bytes=0-3' } });
+    assert.strictEqual(response.returnedFromCache, true);
+    assert.strictEqual(response.status, 206);
+    assert.strictEqual(response.headers.get('content-range'), `bytes 0-3/${bodyLength}`);
+    assert.strictEqual(response.headers.get('content-length'), '4');
+    assert.strictEqual(await response.text(), 'User');
+
+    response = await defaultCachedFetch(TEXT_BODY_URL, { headers: { Range: 'bytes=-6' } });
+    assert.strictEqual(response.status, 206);
+    assert.strictEqual(await response.text(), TEXT_BODY_EXPECTED.slice(-6));
+
+    await (await defaultCachedFetch(new StandardFetchRequest(TEXT_BODY_URL))).text();
+    response = await defaultCachedFetch(new StandardFetchRequest(TEXT_BODY_URL, { headers: { Range: 'bytes=14-' } }));
+    assert.strictEqual(response.returnedFromCache, true);
+    assert.strictEqual(await response.text(), TEXT_BODY_EXPECTED.slice(14));
+  });
+
+  it('Streams ranges of large responses from the file system cache', async () => {
+    const bytesUrl = `${httpBinBaseUrl}/bytes/200000`;
+    defaultCachedFetch = FetchCache.create({ cache: new FileSystemCache() });
+
+    const body = Buffer.from(await (await defaultCachedFetch(bytesUrl)).arrayBuffer());
+
+    for (const [start, end] of [[0, 0], [70_000, 140_000], [199_990, 199_999]] as const) {
+      response = await defaultCachedFetch(bytesUrl, { headers: { Range: `bytes=${start}-${end}` } });
+      assert.strictEqual(response.returnedFromCache, true);
+      assert.strictEqual(response.headers.get('content-range'), `bytes ${start}-${end}/200000`);
+      assert(body.subarray(start, end + 1).equals(Buffer.from(await response.arrayBuffer())));
+    }
+  });
+
+  it('Answers multiple range requests with a multipart response', async () => {
+    response = await defaultCachedFetch(TEXT_BODY_URL, { headers: { Range: 'bytes=0-3, 14-21' } });
+    assert.strictEqual(response.status, 206);
+
+    const contentType = response.headers.get('content-type')!;
+    const boundary = /^multipart\/byteranges; boundary=(.+)$/.exec(contentType)![1]!;
+    const body = await response.text();
+
+    assert.strictEqual(body, [
+      `--${boundary}`,
+      'Content-Type: text/plain',
+      `Content-Range: bytes 0-3/${bodyLength}`,
+      '',
+      'User',
+      `--${boundary}`,
+      'Content-Type: text/plain',
+      `Content-Range: bytes 14-21/${bodyLength}`,
+      '',
+      'Disallow',
+      `--${boundary}--`,
+      '',
+    ].join('\r\n'));
+  });
+
+  it('Responds with a 416 if the range cannot be satisfied', async () => {
+    response = await defaultCachedFetch(TEXT_BODY_URL, { headers: { Range: 'bytes=1000-' } });
+    assert.strictEqual(response.returnedFromCache, true);
+    assert.strictEqual(response.status, 416);
+    assert.strictEqual(response.headers.get('content-range'), `bytes */${bodyLength}`);
+    assert.strictEqual(await response.text(), '');
+  });
+
+  it('Makes the request if the full response is not cached or the range is invalid', async () => {
+    response = await defaultCachedFetch(JSON_BODY_URL, { headers: { Range: 'bytes=0-3' } });
+    assert.strictEqual(response.returnedFromCache, false);
+
+    response = await defaultCachedFetch(TEXT_BODY_URL, { headers: { Range: 'lines=0-3' } });
+    assert.strictEqual(response.returnedFromCache, false);
+    assert.strictEqual(await response.text(), TEXT_BODY_EXPECTED);
+  });
+});
+
+describe('Cache key tests', () => {
+  it('Can calculate a cache key and check that it exists', async () => {
+    await defaultCachedFetch(TWO_HUNDRED_URL);
+
+    const cacheKey = await calculateCacheKey(TWO_HUNDRED_URL);
+    const nonExistentCacheKey = await calculateCacheKey(TEXT_BODY_URL);
+
+    const cacheKeyResult = await defaultCache.get(cacheKey);
+    const nonExistentCacheKeyResult = await defaultCache.get(nonExistentCacheKey);
+
+    assert(cacheKeyResult);
+    assert(!nonExistentCacheKeyResult);
+  });
+
+  it('Gives all shapes of headers the same cache key', async () => {
+    const objectKey = await calculateCacheKey(TWO_HUNDRED_URL, { headers: { Accept: 'text/plain', 'X-Test': 'a' } });
+
+    assert.strictEqual(
+      objectKey,
+      await calculateCacheKey(TWO_HUNDRED_URL, { headers: [['x-test', 'a'], ['accept', 'text/plain']] }),
+    );
+
+    assert.strictEqual(
+      objectKey,
+      await calculateCacheKey(TWO_HUNDRED_URL, { headers: new StandardFetchHeaders({ 'X-TEST': 'a', Accept: 'text/plain' }) }),
+    );
+  });
+
+  it('Gives different headers different cache keys with arrays of pairs', async () => {
+    assert.notStrictEqual(
+      await calculateCacheKey(TWO_HUNDRED_URL, { headers: [['Accept', 'text/plain']] }),
+      await calculateCacheKey(TWO_HUNDRED_URL, { headers: [['Accept', 'text/html']] }),
+    );
+
+    assert.notStrictEqual(
+      await calculateCacheKey(TWO_HUNDRED_URL, { headers: [['Accept', 'text/plain']] }),
+      await calculateCacheKey(TWO_HUNDRED_URL, { headers: [['Accept', 'text/plain'], ['Accept', 'text/html']] }),
+    );
+
+    assert.notStrictEqual(
+      await calculateCacheKey(TWO_HUNDRED_URL, { headers: [['Accept', 'text/plain']] }),
+      await calculateCacheKey(TWO_HUNDRED_URL, { headers: [['X-Other', 'text/plain']] }),
+    );
+  });
+
+  it('Gives different headers different cache keys with Headers instances', async () => {
+    assert.notStrictEqual(
+      await calculateCacheKey(TWO_HUNDRED_URL, { headers: new StandardFetchHeaders({ Accept: 'text/plain' }) }),
+      await calculateCacheKey(TWO_HUNDRED_URL, { headers: new StandardFetchHeaders({ Accept: 'text/html' }) }),
+    );
+
+    assert.notStrictEqual(
+      await calculateCacheKey(TWO_HUNDRED_URL, { headers: new StandardFetchHeaders({ Accept: 'text/plain' }) }),
+      await calculateCacheKey(TWO_HUNDRED_URL),
+    );
+  });
+
+  it('Ignores request cache control directives in all shapes of headers', async () => {
+    const key = await calculateCacheKey(TWO_HUNDRED_URL);
+
+    assert.strictEqual(key, await calculateCacheKey(TWO_HUNDRED_URL, { headers: { 'Cache-Control': 'no-cache' } }));
+    assert.strictEqual(key, await calculateCacheKey(TWO_HUNDRED_URL, { headers: [['cache-control', 'no-cache']] }));
+    assert.strictEqual(key, await calculateCacheKey(TWO_HUNDRED_URL, { headers: new StandardFetchHeaders({ 'Cache-Control': 'no-cache' }) }));
+  });
+});
+
+describe('Cache key explanation tests', () => {
+  it('Explains what the cache key is calculated from', async () => {
+    const explanation = await explainCacheKey(TWO_HUNDRED_URL, {
+      method: 'POST',
+      body: 'body',
+      headers: { Accept: 'text/plain' },
+      agent: new Agent(),
+    });
+
+    assert.deepStrictEqual(explanation, {
+      resource: { url: TWO_HUNDRED_URL },
+      init: { method: 'POST', body: 'body', headers: [['accept', 'text/plain']] },
+      version: CACHE_VERSION,
+    });
+  });
+
+  it('Explains cache keys with cache key calculator options', async () => {
+    const explanation = await explainCacheKey(`${TWO_HUNDRED_URL}?utm_source=x`, undefined, { ignoreQueryParams: ['utm_source'] });
+    assert.strictEqual(explanation.resource['url'], TWO_HUNDRED_URL);
+  });
+
+  it('Lists the fields that differ between two cache keys', async () => {
+    const differences = diffCacheKeys(
+      await explainCacheKey(TWO_HUNDRED_URL, { headers: { Accept: 'text/plain', 'X-Same': '1' }, redirect: 'manual' }),
+      await explainCacheKey(TWO_HUNDRED_URL, { headers: { 'X-Same': '1', 'X-Trace': '2', Accept: 'text/html' } }),
+    );
+
+    assert.deepStrictEqual(differences, [
+      { path: 'init.headers.accept', a: ['text/plain'], b: ['text/html'] },
+      { path: 'init.headers.x-trace', a: undefined, b: ['2'] },
+      { path: 'init.redirect', a: 'manual', b: undefined },
+    ]);
+
+    assert.deepStrictEqual(
+      diffCacheKeys(await explainCacheKey(TWO_HUNDRED_URL), await explainCacheKey(TWO_HUNDRED_URL, {})),
+      [],
+    );
+  });
+
+  it('Reports cache misses in debug mode', async () => {
+    const cacheMisses: CacheMiss[] = [];
+    defaultCachedFetch = FetchCache.create({
+      cache: defaultCache,
+      debugCacheMisses: cacheMiss => cacheMisses.push(cacheMiss),
+    });
+
+    await defaultCachedFetch(TWO_HUNDRED_URL, { headers: { Accept: 'text/plain' } });
+    await defaultCachedFetch(TWO_HUNDRED_URL, { headers: { Accept: 'text/plain' } });
+
+    assert.deepStrictEqual(cacheMisses, [{
+      cacheKey: await calculateCacheKey(TWO_HUNDRED_URL, { headers: { Accept: 'text/plain' } }),
+      explanation: await explainCacheKey(TWO_HUNDRED_URL, { headers: { Accept: 'text/plain' } }),
+    }]);
+  });
+});
+
+describe('Cache key calculator tests', () => {
+  it('Calculates the same cache keys as calculateCacheKey by default', async () => {
+    const calculator = createCacheKeyCalculator();
+
+    assert.strictEqual(await calculator(TWO_HUNDRED_URL), await calculateCacheKey(TWO_HUNDRED_URL));
+    assert.strictEqual(
+      await calculator(new StandardFetchRequest(TWO_HUNDRED_URL), post('body')),
+      await calculateCacheKey(new StandardFetchRequest(TWO_HUNDRED_URL), post('body')),
+    );
+  });
+
+  it('Can include or exclude headers', async () => {
+    const includingCalculator = createCacheKeyCalculator({ includeHeaders: ['Accept'] });
+    const excludingCalculator = createCacheKeyCalculator({ excludeHeaders: ['X-Trace-Id'] });
+
+    for (const calculator of [includingCalculator, excludingCalculator]) {
+      assert.strictEqual(
+        await calculator(TWO_HUNDRED_URL, { headers: { Accept: 'text/plain', 'X-Trace-Id': '1' } }),
+        await calculator(TWO_HUNDRED_URL, { headers: { Accept: 'text/plain', 'x-trace-id': '2' } }),
+      );
+
+      assert.notStrictEqual(
+        await calculator(new StandardFetchRequest(TWO_HUNDRED_URL, { headers: { Accept: 'text/plain' } })),
+        await calculator(new StandardFetchRequest(TWO_HUNDRED_URL, { headers: { Accept: 'text/html' } })),
+      );
+    }
+  });
+
+  it('Can normalize URLs', async () => {
+    const calculator = createCacheKeyCalculator({
+      ignoreQueryParams: ['fbclid', /^utm_/],
+      sortQueryParams: true,
+      lowercaseHost: true,
+      stripFragment: true,
+    });
+
+    assert.strictEqual(
+      await calculator('http://LOCALHOST:3000/path?b=2&utm_source=x&a=1&fbclid=y#fragment'),
+      await calculator('http://localhost:3000/path?a=1&b=2'),
+    );
+
+    assert.strictEqual(
+      await calculator('http://localhost:3000/path?utm_source=x'),
+      await calculator('http://localhost:3000/path'),
+    );
+
+    assert.notStrictEqual(
+      await calculator('http://localhost:3000/PATH'),
+      await calculator('http://localhost:3000/path'),
+    );
+
+    assert.notStrictEqual(
+      await calculateCacheKey('http://localhost:3000/path?b=2&a=1'),
+      await calculateCacheKey('http://localhost:3000/path?a=1&b=2'),
+    );
+  });
+
+  it('Can ignore fetch options', async () => {
+    const calculator = createCacheKeyCalculator({ ignoreInitFields: ['redirect', 'compress'] });
+
+    assert.strictEqual(
+      await calculator(TWO_HUNDRED_URL, { redirect: 'manual', compress: false }),
+      await calculator(TWO_HUNDRED_URL),
+    );
+
+    assert.notStrictEqual(
+      await calculator(TWO_HUNDRED_URL, { follow: 1 }),
+      await calculator(TWO_HUNDRED_URL),
+    );
+  });
+
+  it('Can hash JSON bodies in a canonical form', async () => {
+    const calculator = createCacheKeyCalculator({ normalizeBody: 'json' });
+    const json = { headers: { 'Content-Type': 'application/json' } };
+
+    assert.strictEqual(
+      await calculator(TWO_HUNDRED_URL, { ...json, method: 'POST', body: '{"a": 1, "b": {"d": [1, 2], "c": null}}' }),
+      await calculator(TWO_HUNDRED_URL, { ...json, method: 'POST', body: '{"b":{"c":null,"d":[1,2]},"a":1}' }),
+    );
+
+    assert.notStrictEqual(
+      await calculator(TWO_HUNDRED_URL, { ...json, method: 'POST', body: '{"b": {"d": [2, 1]}}' }),
+      await calculator(TWO_HUNDRED_URL, { ...json, method: 'POST', body: '{"b": {"d": [1, 2]}}' }),
+    );
+
+    assert.notStrictEqual(
+      await calculator(TWO_HUNDRED_URL, { method: 'POST', body: '{"a": 1, "b": 2}' }),
+      await calculator(TWO_HUNDRED_URL, { method: 'POST', body: '{"b": 2, "a": 1}' }),
+    );
+
+    assert.notStrictEqual(
+      await calculator(TWO_HUNDRED_URL, { ...json, method: 'POST', body: '{"id": 9007199254740993}' }),
+      await calculator(TWO_HUNDRED_URL, { ...json, method: 'POST', body: '{"id": 9007199254740992}' }),
+    );
+
+    assert.strictEqual(
+      await calculator(TWO_HUNDRED_URL, { ...json, method: 'POST', body: '{"id": 9007199254740993, "a": "\\"}"}' }),
+      await calculator(TWO_HUNDRED_URL, { ...json, method: 'POST', body: '{"a":"\\"}","id":9007199254740993}' }),
+    );
+
+    assert.strictEqual(
+      await calculator(new StandardFetchRequest(TWO_HUNDRED_URL, { ...json, method: 'POST', body: '{"a": 1, "b": 2}' })),
+      await calculator(new StandardFetchRequest(TWO_HUNDRED_URL, { ...json, method: 'POST', body: '{"b": 2, "a": 1}' })),
+    );
+  });
+
+  it('Can normalize GraphQL requests', async () => {
+    const calculator = createCacheKeyCalculator({ normalizeBody: 'graphql' });
+    const postGraphQl = (body: unknown) => ({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    assert.strictEqual(
+      await calculator(TWO_HUNDRED_URL, postGraphQl({
+        query: 'query User($id: ID!) {\n  # The user\n  user(id: $id) { id, name }\n}',
+        operationName: 'User',
+        variables: { id: 1, locale: 'en' },
+      })),
+      await calculator(TWO_HUNDRED_URL, postGraphQl({
+        variables: { locale: 'en', id: 1 },
+        operationName: 'User',
+        query: 'query User($id:ID!){user(id:$id){id name}}',
+      })),
+    );
+
+    assert.notStrictEqual(
+      await calculator(TWO_HUNDRED_URL, postGraphQl({ query: '{ user(name: "a  b") { id } }' })),
+      await calculator(TWO_HUNDRED_URL, postGraphQl({ query: '{ user(name: "a b") { id } }' })),
+    );
+
+    assert.notStrictEqual(
+      await calculator(TWO_HUNDRED_URL, postGraphQl({ query: '{ user { id } }', variables: { id: 1 } })),
+      await calculator(TWO_HUNDRED_URL, postGraphQl({ query: '{ user { id } }', variables: { id: 2 } })),
+    );
+
+    for (const idField of ['id', 'documentId', 'doc_id']) {
+      assert.notStrictEqual(
+        await calculator(TWO_HUNDRED_URL, postGraphQl({ [idField]: 'QueryA' })), // eslint-disable-line no-await-in-loop
+        await calculator(TWO_HUNDRED_URL, postGraphQl({ [idField]: 'QueryB' })), // eslint-disable-line no-await-in-loop
+      );
+    }
+  });
+
+  it('Can normalize bodies with a custom function', async () => {
+    const calculator = createCacheKeyCalculator({
+      normalizeBody: body => body.replace(/&timestamp=\d+/, ''),
+    });
+
+    assert.strictEqual(
+      await calculator(TWO_HUNDRED_URL, { method: 'POST', body: 'a=1&timestamp=123' }),
+      await calculator(TWO_HUNDRED_URL, { method: 'POST', body: 'a=1&timestamp=456' }),
+    );
+  });
+
+  it('Can be used as the cache key function', async () => {
+    defaultCachedFetch = FetchCache.create({
+      cache: defaultCache,
+      calculateCacheKey: createCacheKeyCalculator({ ignoreQueryParams: ['trace'] }),
+    });
+
+    await (await defaultCachedFetch(`${httpBinBaseUrl}/uuid?trace=1`)).text();
+
+    response = await defaultCachedFetch(`${httpBinBaseUrl}/uuid?trace=2`);
+    assert.strictEqual(response.returnedFromCache, true);
+  });
+
+  it('Can calculate readable cache keys', async () => {
+    const calculator = createCacheKeyCalculator({ keyFormat: 'readable', namespace: 'api' });
+
+    const cacheKey = await calculator(TWO_HUNDRED_URL);
+    assert.match(cacheKey, /^api:localhost:3000:[\da-f]{16}:[\da-f]{32}$/);
+    assert.strictEqual(cacheKey.split(':').at(-1), await calculateCacheKey(TWO_HUNDRED_URL));
+
+    const otherQueryCacheKey = await calculator(`${TWO_HUNDRED_URL}?a=1`);
+    const otherPathCacheKey = await calculator(FOUR_HUNDRED_URL);
+    const pathPrefix = cacheKey.slice(0, cacheKey.lastIndexOf(':') + 1);
+
+    assert.notStrictEqual(otherQueryCacheKey, cacheKey);
+    assert(otherQueryCacheKey.startsWith(pathPrefix));
+    assert(otherPathCacheKey.startsWith('api:localhost:3000:'));
+    assert(!otherPathCacheKey.startsWith(pathPrefix));
+  });
+
+  it('Can use sha256 for cache keys', async () => {
+    const hashCalculator = createCacheKeyCalculator({ hashAlgorithm: 'sha256' });
+    const readableCalculator = createCacheKeyCalculator({ hashAlgorithm: 'sha256', keyFormat: 'readable' });
+
+    const cacheKey = await hashCalculator(TWO_HUNDRED_URL);
+    assert.match(cacheKey, /^[\da-f]{64}$/);
+    assert.notStrictEqual(cacheKey, await calculateCacheKey(TWO_HUNDRED_URL));
+    assert.match(await readableCalculator(TWO_HUNDRED_URL), /^nfc:localhost:3000:[\da-f]{16}:[\da-f]{64}$/);
+  });
+
+  it('Stores the request method and URL with readable cache keys', async () => {
+    const calculator = createCacheKeyCalculator({ keyFormat: 'readable' });
+    const cache = new FileSystemCache();
+    defaultCachedFetch = FetchCache.create({ cache, calculateCacheKey: calculator });
+
+    await (await defaultCachedFetch(TEXT_BODY_URL)).text();
+
+    response = await defaultCachedFetch(TEXT_BODY_URL);
+    assert.strictEqual(response.returnedFromCache, true);
+
+    const cachedValue = await cache.get(await calculator(TEXT_BODY_URL));
+    cachedValue?.bodyStream.resume();
+    assert.strictEqual(cachedValue?.metaData.requestMethod, 'GET');
+    assert.strictEqual(cachedValue?.metaData.requestUrl, TEXT_BODY_URL);
+  });
+});
+
+describe('Cache strategy tests', () => {
+  it('Can use a custom cache strategy to cache only OKAY responses', async () => {
+    const customCachedFetch = FetchCache.create({
+      cache: defaultCache,
+      shouldCacheResponse: cacheStrategies.cacheOkayOnly,
+    });
+
+    response = await customCachedFetch(FOUR_HUNDRED_URL);
+    assert.strictEqual(response.returnedFromCache, false);
+
+    response = await customCachedFetch(FOUR_HUNDRED_URL);
+    assert.strictEqual(response.returnedFromCache, false);
+
+    response = await customCachedFetch(TWO_HUNDRED_URL);
+    assert.strictEqual(response.returnedFromCache, false);
+
+    response = await customCachedFetch(TWO_HUNDRED_URL);
+    assert.strictEqual(response.returnedFromCache, true);
+  });
+
+  it('Can use a custom cache strategy via the call to fetch to cache only OKAY responses', async () => {
+    const customCachedFetch = FetchCache.create({
+      cache: defaultCache,
+    });
+
+    response = await customCachedFetch(FOUR_HUNDRED_URL, undefined, {
+      shouldCacheResponse: cacheStrategies.cacheOkayOnly,
+    });
+    assert.strictEqual(response.returnedFromCache, false);
+
+    response = await customCachedFetch(FOUR_HUNDRED_URL, undefined, {
+      shouldCacheResponse: cacheStrategies.cacheOkayOnly,
+    });
+    assert.strictEqual(response.returnedFromCache, false);
+
+    response = await customCachedFetch(FOUR_HUNDRED_URL, undefined, {
+      shouldCacheResponse: cacheStrategies.cacheNon5xxOnly,
+    });
+    assert.strictEqual(response.returnedFromCache, false);
+
+    response = await customCachedFetch(FOUR_HUNDRED_URL);
+    assert.strictEqual(response.returnedFromCache, true);
+  });
+
+  it('Can use the cacheNon5xxOnly built-in strategy', async () => {
+    const customCachedFetch = FetchCache.create({
+      cache: defaultCache,
+      shouldCacheResponse: cacheStrategies.cacheNon5xxOnly,
+    });
+
+    response = await customCachedFetch(FOUR_HUNDRED_URL);
+    assert.strictEqual(response.returnedFromCache, false);
+
+    response = await customCachedFetch(FOUR_HUNDRED_URL);
+    assert.strictEqual(response.returnedFromCache, true);
+
+    response = await customCachedFetch(FIVE_HUNDRED_URL);
+    assert.strictEqual(response.returnedFromCache, false);
+
+    response = await customCachedFetch(FIVE_HUNDRED_URL);
+    assert.strictEqual(response.returnedFromCache, false);
+  });
+
+  it('Can use the cacheHttpCompliant built-in strategy', async () => {
+    const customCachedFetch = FetchCache.create({
+      cache: defaultCache,
+      shouldCacheResponse: cacheStrategies.cacheHttpCompliant,
+    });
+
+    const isCachedOnSecondFetch = async (url: string, init?: Parameters<typeof customCachedFetch>[1]) => {
+      await (await customCachedFetch(url, init)).text();
+      response = await customCachedFetch(url, init);
+      await response.text();
+      return response.returnedFromCache;
+    };
+
+    assert.strictEqual(await isCachedOnSecondFetch(TWO_HUNDRED_URL), true);
+    assert.strictEqual(await isCachedOnSecondFetch(FOUR_HUNDRED_URL), false);
+    assert.strictEqual(await isCachedOnSecondFetch(`${httpBinBaseUrl}/status/404`), true);
+    assert.strictEqual(await isCachedOnSecondFetch(`${httpBinBaseUrl}/response-headers?Cache-Control=no-store`), false);
+    assert.strictEqual(await isCachedOnSecondFetch(`${httpBinBaseUrl}/response-headers?Cache-Control=private`), false);
+    assert.strictEqual(await isCachedOnSecondFetch(`${httpBinBaseUrl}/response-headers?Set-Cookie=a=b`), false);
+    assert.strictEqual(await isCachedOnSecondFetch(`${httpBinBaseUrl}/response-headers?a=b`, post('')), false);
+    assert.strictEqual(await isCachedOnSecondFetch(`${httpBinBaseUrl}/response-headers?Cache-Control=max-age=60`, post('')), false);
+    assert.strictEqual(await isCachedOnSecondFetch(`${httpBinBaseUrl}/response-headers?Cache-Control=max-age=60&Content-Location=/a`, post('')), true);
+    assert.strictEqual(await isCachedOnSecondFetch(`${httpBinBaseUrl}/response-headers?Cache-Control=max-age=60&Content-Location=/a`, { method: 'PUT', body: '' }), false);
+    assert.strictEqual(await isCachedOnSecondFetch(`${httpBinBaseUrl}/response-headers?Cache-Control=max-age=60`, { method: 'DELETE' }), false);
+  });
+
+  it('Can use a custom cache strategy that uses the response body', async () => {
+    const customCachedFetch = FetchCache.create({
+      cache: defaultCache,
+      async shouldCacheResponse(response) {
+        const body = await response.text();
+        return Boolean(body);
+      },
+    });
+
+    response = await customCachedFetch(TEXT_BODY_URL);
+    assert.strictEqual(response.returnedFromCache, false);
+    assert.strictEqual(await response.text(), TEXT_BODY_EXPECTED);
+  });
+
+  it('Can use a custom cache strategy that uses the response for all response types', async () => {
+    const functionsThatUseResponse = [
+      'arrayBuffer',
+      'blob',
+      'buffer',
+      'json',
+      'text',
+    ] as const;
+
+    await Promise.all(
+      functionsThatUseResponse.map(async functionName => {
+        const newFetch = FetchCache.create({
+          cache: new MemoryCache(),
+        });
+
+        response = await newFetch(JSON_BODY_URL, undefined, {
+          async shouldCacheResponse(response) {
+            await response[functionName]();
+            return true;
+          },
+        });
+
+        assert.strictEqual(response.returnedFromCache, false);
+
+        // Because when the json() function is used all of the whitespace in
+        // the response is lost, something a little special happens when we
+        // snipe the response body from json(). The cached response will have
+        // the whitespace stripped out, even though the original response may
         // not have. This may cause issues for some unusual use cases.
         if (functionName === 'json') {
           assert.strictEqual(await response.text(), JSON.stringify(JSON.parse(JSON_BODY_EXPECTED)));
@@ -786,4 +2754,66 @@ describe('Network error tests', () => {
   it('Bubbles up network errors', async () => {
     await assert.rejects(async () => defaultCachedFetch('http://localhost:1'), /^FetchError:/);
   });
+
+  it('Bubbles up network errors if there is an expired response but staleIfError is not set', async () => {
+    defaultCachedFetch = FetchCache.create({
+      cache: new FileSystemCache({ ttl: 100 }),
+      calculateCacheKey: async () => 'key',
+    });
+
+    await (await defaultCachedFetch(TEXT_BODY_URL)).text();
+    await wait(200);
+
+    await assert.rejects(async () => defaultCachedFetch('http://localhost:1'), /^FetchError:/);
+  });
+
+  it('Falls back to an expired response on network errors', async () => {
+    defaultCachedFetch = FetchCache.create({
+      cache: new FileSystemCache({ ttl: 100 }),
+      calculateCacheKey: async () => 'key',
+      staleIfError: 10_000,
+    });
+
+    await (await defaultCachedFetch(TEXT_BODY_URL)).text();
+    await wait(200);
+
+    response = await defaultCachedFetch('http://localhost:1');
+    assert.strictEqual(response.returnedFromCache, true);
+    assert.strictEqual(response.isStale, true);
+    assert.strictEqual(response.isStaleIfError, true);
+    assert.strictEqual(await response.text(), TEXT_BODY_EXPECTED);
+  });
+
+  it('Falls back to an expired response on configured error statuses', async () => {
+    defaultCachedFetch = FetchCache.create({
+      cache: new FileSystemCache({ ttl: 100 }),
+      calculateCacheKey: async () => 'key',
+      staleIfError: 10_000,
+      staleIfErrorStatuses: [500],
+    });
+
+    await (await defaultCachedFetch(TEXT_BODY_URL)).text();
+    await wait(200);
+
+    response = await defaultCachedFetch(FIVE_HUNDRED_URL);
+    assert.strictEqual(response.isStaleIfError, true);
+    assert.strictEqual(await response.text(), TEXT_BODY_EXPECTED);
+
+    response = await defaultCachedFetch(FOUR_HUNDRED_URL);
+    assert.strictEqual(response.isStaleIfError, false);
+    assert.strictEqual(response.status, 400);
+  });
+
+  it('Honors the stale-if-error response directive', async () => {
+    defaultCachedFetch = FetchCache.create({
+      cache: defaultCache,
+      calculateCacheKey: async () => 'key',
+      respectCacheHeaders: true,
+    });
+
+    await defaultCachedFetch(`${httpBinBaseUrl}/response-headers?Cache-Control=${encodeURIComponent('max-age=0, stale-if-error=60')}`);
+
+    response = await defaultCachedFetch('http://localhost:1');
+    assert.strictEqual(response.isStaleIfError, true);
+  });
 });